@@ -1,8 +1,26 @@
-import React, { useState } from 'react';
-import { DndProvider } from 'react-dnd';
-import { HTML5Backend } from 'react-dnd-html5-backend';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DndProvider } from 'react-dnd-multi-backend';
 import LoginPage from './components/LoginPage';
 import GamePage from './components/GamePage';
+import SettingsPage from './components/SettingsPage';
+import { defaultLevelSet } from './game/levels';
+import { EngineState } from './game/engine';
+import { GameMode, getEndlessLevels } from './game/modes';
+import {
+  SaveData,
+  SavedBoard,
+  addProfile,
+  getProfileProgress,
+  loadSave,
+  selectProfile,
+  serializeBoard,
+  setProfileProgress,
+  withHighScore,
+  writeSave
+} from './game/persistence';
+import sessionLogger from './utils/SessionLogger';
+import { DND_BACKENDS } from './utils/dndBackend';
+import { I18nProvider } from './i18n';
 import './App.css';
 
 interface GameState {
@@ -10,37 +28,169 @@ interface GameState {
   score: number;
   isPlaying: boolean;
   totalScore: number;
+  mode: GameMode;
+  // هر دور تازه صفحه بازی را از نو می‌سازد تا ساعت، اشتباه‌ها و راهنما از صفر شروع شوند
+  runId: number;
+  // دور تمام شده و امتیازش باید در بهترین امتیازها حساب شود
+  finished: boolean;
+  // سفارش‌های دور بی‌پایان از روی این عدد ساخته می‌شوند
+  seed: number;
 }
 
+// مجموعه مراحل در طول اجرای برنامه عوض نمی‌شود
+const levelSet = defaultLevelSet;
+
 function App() {
+  const [saveData, setSaveData] = useState<SaveData>(() => loadSave());
+  const saveRef = useRef(saveData);
+  const activeProfileId = saveData.lastProfileId;
+  const activeProgress = getProfileProgress(saveData, activeProfileId, levelSet.id);
   const [gameState, setGameState] = useState<GameState>({
     currentLevel: 1,
     score: 0,
     isPlaying: false,
-    totalScore: 0,
+    totalScore: activeProgress?.totalScore ?? 0,
+    mode: 'story',
+    runId: 0,
+    finished: false,
+    seed: 0
   });
+  const [resumeBoard, setResumeBoard] = useState<SavedBoard | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const boardRef = useRef<SavedBoard | null>(activeProgress?.board ?? null);
+  const gameStateRef = useRef(gameState);
+  gameStateRef.current = gameState;
+
+  const updateSave = (next: SaveData) => {
+    saveRef.current = next;
+    setSaveData(next);
+    writeSave(next);
+  };
+
+  const persist = () => {
+    const { isPlaying, currentLevel, score, totalScore, mode, finished } = gameStateRef.current;
+    const profileId = saveRef.current.lastProfileId;
+    // تا وقتی بازی شروع نشده، ذخیره قبلی دست نمی‌خورد
+    if (!isPlaying || !profileId) return;
+    const previous = getProfileProgress(saveRef.current, profileId, levelSet.id);
+    // فقط دور داستانی ادامه‌دادنی است؛ چالش‌ها دور ذخیره‌شده را دست نمی‌زنند
+    const isStory = mode === 'story';
+    // دور داستانی تمام‌شده دیگر چیزی برای ادامه دادن ندارد
+    const keepsRun = isStory && !finished;
+    const progress = {
+      levelSetId: levelSet.id,
+      totalScore,
+      run: keepsRun ? { currentLevel, score } : isStory ? null : previous?.run ?? null,
+      board: keepsRun ? boardRef.current : isStory ? null : previous?.board ?? null,
+      highScores: previous?.highScores ?? {}
+    };
+    // حین بازی فقط در حافظه محلی نوشته می‌شود تا هر حرکت App را دوباره رندر نکند
+    saveRef.current = setProfileProgress(saveRef.current, profileId, finished ? withHighScore(progress, mode, score) : progress);
+    writeSave(saveRef.current);
+  };
+
+  // بهترین امتیازها و امتیاز کل هنگام شروع دور تازه یا برگشت به صفحه اول به‌روز دیده می‌شوند
+  const syncSave = () => setSaveData(saveRef.current);
+
+  useEffect(persist, [gameState]);
+
+  const saveBoard = (state: EngineState) => {
+    boardRef.current = serializeBoard(state);
+    persist();
+  };
+
+  // هر پروفایل امتیاز و پیشرفت خودش را دارد
+  const switchToProfile = (next: SaveData) => {
+    const progress = getProfileProgress(next, next.lastProfileId, levelSet.id);
+    updateSave(next);
+    boardRef.current = progress?.board ?? null;
+    setGameState(prev => ({ ...prev, currentLevel: 1, score: 0, totalScore: progress?.totalScore ?? 0 }));
+  };
+
+  const handleSelectProfile = (profileId: string) => {
+    switchToProfile(selectProfile(saveRef.current, profileId));
+  };
+
+  const handleCreateProfile = (name: string, avatar: string) => {
+    switchToProfile(addProfile(saveRef.current, name, avatar).save);
+  };
 
-  const startGame = () => {
-    setGameState(prev => ({ ...prev, isPlaying: true, currentLevel: 1, score: 0 }));
+  // هر بار ورود به بازی یک جلسه تازه در گزارش معلم است
+  const beginSession = () => {
+    const profile = saveRef.current.profiles.find(p => p.id === saveRef.current.lastProfileId);
+    sessionLogger.setContext({ profileId: profile?.id ?? null, profileName: profile?.name ?? null, levelId: null });
+    sessionLogger.startSession();
   };
 
+  const startGame = (mode: GameMode) => {
+    if (!activeProfileId) return;
+    beginSession();
+    sessionLogger.log('mode-start', { mode });
+    // دور داستانی تازه جای دور ذخیره‌شده را می‌گیرد
+    if (mode === 'story') boardRef.current = null;
+    setResumeBoard(null);
+    setGameState(prev => ({
+      ...prev,
+      isPlaying: true,
+      currentLevel: 1,
+      score: 0,
+      mode,
+      runId: prev.runId + 1,
+      finished: false,
+      seed: Date.now()
+    }));
+  };
+
+  const continueGame = () => {
+    if (!activeProgress?.run) return;
+    const run = activeProgress.run;
+    beginSession();
+    setResumeBoard(activeProgress.board);
+    setGameState(prev => ({
+      ...prev,
+      isPlaying: true,
+      currentLevel: Math.min(Math.max(run.currentLevel, 1), levelSet.levels.length),
+      score: run.score,
+      mode: 'story',
+      runId: prev.runId + 1,
+      finished: false
+    }));
+  };
+
+  // سفارش‌های دور بی‌پایان همراه پیشرفت بازیکن ساخته می‌شوند
+  const levels = useMemo(
+    () => gameState.mode === 'endless' ? getEndlessLevels(gameState.currentLevel, gameState.seed) : levelSet.levels,
+    [gameState.mode, gameState.currentLevel, gameState.seed]
+  );
+
   const nextLevel = () => {
     setGameState(prev => ({
       ...prev,
-      currentLevel: Math.min(prev.currentLevel + 1, 4)
+      currentLevel: prev.mode === 'endless' ? prev.currentLevel + 1 : Math.min(prev.currentLevel + 1, levelSet.levels.length)
     }));
   };
 
   const resetGame = () => {
+    syncSave();
+    if (gameStateRef.current.mode === 'story') boardRef.current = null;
+    setResumeBoard(null);
     setGameState(prev => ({
       ...prev,
       currentLevel: 1,
       score: 0,
-      isPlaying: true
+      isPlaying: true,
+      runId: prev.runId + 1,
+      finished: false,
+      seed: Date.now()
       // totalScore intentionally kept to persist across runs
     }));
   };
 
+  const exitRun = () => {
+    syncSave();
+    setGameState(prev => ({ ...prev, isPlaying: false }));
+  };
+
   // اضافه کردن امتیاز هر مرحله به امتیاز دور جاری
   const awardPoints = (points: number) => {
     setGameState(prev => ({
@@ -49,30 +199,56 @@ function App() {
     }));
   };
 
+  // هر دور فقط یک بار تمام می‌شود، حتی اگر پایان وقت و آخرین اشتباه با هم برسند
+  const completedRunRef = useRef<number | null>(null);
   const completeRun = () => {
-    // accumulate the current score into totalScore when stage 4 finishes
+    const { runId } = gameStateRef.current;
+    if (completedRunRef.current === runId) return;
+    completedRunRef.current = runId;
+    // accumulate the current score into totalScore when the last stage finishes
     setGameState(prev => ({
       ...prev,
-      totalScore: prev.totalScore + prev.score
+      totalScore: prev.totalScore + prev.score,
+      finished: true
     }));
   };
 
   return (
-    <DndProvider backend={HTML5Backend}>
-      <div className="App">
-        {!gameState.isPlaying ? (
-          <LoginPage onStartGame={startGame} />
-        ) : (
-          <GamePage 
-            gameState={gameState} 
-            onNextLevel={nextLevel} 
-            onResetGame={resetGame} 
-            onCompleteRun={completeRun}
-            onAwardPoints={awardPoints}
-          />
-        )}
-      </div>
-    </DndProvider>
+    <I18nProvider>
+      <DndProvider options={DND_BACKENDS}>
+        <div className="App">
+          {showSettings ? (
+            <SettingsPage onClose={() => setShowSettings(false)} />
+          ) : !gameState.isPlaying ? (
+            <LoginPage
+              profiles={saveData.profiles}
+              progress={saveData.progress}
+              activeProfileId={activeProfileId}
+              onSelectProfile={handleSelectProfile}
+              onCreateProfile={handleCreateProfile}
+              highScores={activeProgress?.highScores ?? {}}
+              onStartGame={startGame}
+              onContinueGame={activeProgress?.run ? continueGame : undefined}
+              onOpenSettings={() => setShowSettings(true)}
+            />
+          ) : (
+            <GamePage 
+              key={gameState.runId}
+              gameState={gameState} 
+              levels={levels}
+              highScore={activeProgress?.highScores[gameState.mode] ?? 0}
+              onNextLevel={nextLevel} 
+              onResetGame={resetGame} 
+              onExitRun={exitRun}
+              onCompleteRun={completeRun}
+              onAwardPoints={awardPoints}
+              savedBoard={resumeBoard}
+              onBoardChange={saveBoard}
+            />
+          )}
+        </div>
+      </DndProvider>
+    </I18nProvider>
   );
 }
 
@@ -0,0 +1,95 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import soundManager, { AUDIO_CHANNELS, AudioChannel, playClickSound } from '../utils/SoundManager';
+import { useI18n } from '../i18n';
+import './AudioSettingsPanel.css';
+
+const CHANNEL_ICONS: Record<AudioChannel, string> = {
+  master: '🔊',
+  sfx: '🔔',
+  music: '🎵',
+  voice: '🗣️'
+};
+
+const subscribe = (listener: () => void) => soundManager.subscribe(listener);
+const getSettings = () => soundManager.getSettings();
+
+// دکمه و پنجره تنظیمات صدا: بلندی و بی‌صدا کردن هر کانال
+const AudioSettingsPanel: React.FC = () => {
+  const { t, formatNumber } = useI18n();
+  const settings = useSyncExternalStore(subscribe, getSettings);
+  const [open, setOpen] = useState(false);
+
+  const toggleOpen = () => {
+    playClickSound();
+    setOpen(prev => !prev);
+  };
+
+  return (
+    <div className="audio-settings">
+      <button
+        className="audio-settings-toggle accessible-button"
+        onClick={toggleOpen}
+        aria-expanded={open}
+        aria-controls="audio-settings-panel"
+        aria-label={t('audio.open')}
+        title={t('audio.open')}
+      >
+        {settings.muted.master ? '🔇' : '🔊'}
+      </button>
+
+      {open && (
+        <div
+          id="audio-settings-panel"
+          className="audio-settings-panel font-kids-body"
+          role="dialog"
+          aria-label={t('audio.open')}
+          onKeyDown={event => {
+            if (event.key === 'Escape') setOpen(false);
+          }}
+        >
+          <h3 className="audio-settings-title font-kids-title">{t('audio.title')}</h3>
+          {AUDIO_CHANNELS.map(channel => {
+            const label = t(`audio.${channel}`);
+            const muted = settings.muted[channel];
+            const percent = Math.round(settings.volumes[channel] * 100);
+            return (
+              <div key={channel} className={`audio-settings-row ${muted ? 'muted' : ''}`}>
+                <button
+                  className="audio-settings-mute accessible-button"
+                  onClick={() => soundManager.setChannelMuted(channel, !muted)}
+                  aria-pressed={muted}
+                  aria-label={t('audio.mute', { channel: label })}
+                >
+                  {muted ? '🔇' : CHANNEL_ICONS[channel]}
+                </button>
+                <label className="audio-settings-label" htmlFor={`audio-volume-${channel}`}>{label}</label>
+                <input
+                  id={`audio-volume-${channel}`}
+                  className="audio-settings-slider"
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={percent}
+                  aria-valuetext={`${formatNumber(percent)}%`}
+                  onChange={event => soundManager.setChannelVolume(channel, Number(event.target.value) / 100)}
+                />
+                <span className="audio-settings-value">{formatNumber(percent)}</span>
+              </div>
+            );
+          })}
+          <div className="audio-settings-actions">
+            <button className="audio-settings-action accessible-button" onClick={() => soundManager.resetSettings()}>
+              {t('audio.reset')}
+            </button>
+            <button className="audio-settings-action accessible-button" onClick={toggleOpen}>
+              {t('audio.close')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioSettingsPanel;
@@ -0,0 +1,25 @@
+import React, { useSyncExternalStore } from 'react';
+import { useI18n } from '../i18n';
+import { getBoardView, setBoardView, subscribeBoardView } from '../utils/boardView';
+import { playClickSound } from '../utils/SoundManager';
+import './IranianTheme.css';
+
+// دکمه عوض کردن نمای بازی بین صفحه معمولی و صحنه Pixi؛ انتخاب ذخیره می‌شود
+const BoardViewSwitch: React.FC = () => {
+  const { t } = useI18n();
+  const view = useSyncExternalStore(subscribeBoardView, getBoardView);
+
+  return (
+    <button
+      className="language-switch play-mode-switch font-kids-body accessible-button"
+      onClick={() => {
+        playClickSound();
+        setBoardView(view === 'dom' ? 'pixi' : 'dom');
+      }}
+    >
+      {t(view === 'dom' ? 'boardView.toPixi' : 'boardView.toDom')}
+    </button>
+  );
+};
+
+export default BoardViewSwitch;
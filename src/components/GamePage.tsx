@@ -1,15 +1,57 @@
-import React, { useState, useEffect, RefObject } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore, RefObject } from 'react';
 import { useDrag, useDrop } from 'react-dnd';
+import { Preview, PreviewState } from 'react-dnd-multi-backend';
 import type { DragSourceMonitor, DropTargetMonitor, ConnectDragSource, ConnectDropTarget } from 'react-dnd';
 import PixiGame from './PixiGame';
+import BoardViewSwitch from './BoardViewSwitch';
+import MiniGameHost from '../minigames/MiniGameHost';
+import { MiniGameDefinition, MiniGameResult, getMiniGameAfter } from '../minigames/registry';
+import NPCGuide from './NPCGuide';
+import { Flavor, LevelDefinition, OrderLine, getChocolateCount, localizeLevel } from '../game/levels';
+import {
+  BoxDiagnosis,
+  BoxItem,
+  ChocolateItem,
+  EngineAction,
+  EngineEvent,
+  EngineState,
+  HINT_AFTER_FAILURES,
+  formatDivision,
+  PackingDiagnosis
+} from '../game/engine';
+import { getBoardModel } from '../game/board';
+import { useGameEngine } from '../game/useGameEngine';
+import { BoxMismatch } from '../game/orders';
+import { LevelScore, ScoreFactor } from '../game/scoring';
+import { GuideLine, IDLE_NUDGE_MS, getDialogue, getHintLine, getIdleLine, getSuccessLine } from '../game/dialogue';
+import { SavedBoard, restoreBoard } from '../game/persistence';
+import {
+  ENDLESS_MAX_MISTAKES,
+  ENDLESS_STREAK_BONUS,
+  GameMode,
+  RunEndReason,
+  TIMED_BONUS_SECONDS,
+  TIMED_POINTS_PER_SECOND,
+  getTimedSeconds
+} from '../game/modes';
+import sessionLogger from '../utils/SessionLogger';
+import { getBoardView, subscribeBoardView } from '../utils/boardView';
+import { navigableKeyDown } from '../utils/keyboardNavigation';
+import { I18nContextValue, MessageKey, useI18n } from '../i18n';
+import LanguageSwitch from './LanguageSwitch';
+import Subtitles from './Subtitles';
+import { cancelVoice } from '../utils/VoiceManager';
+import AudioSettingsPanel from './AudioSettingsPanel';
 import { 
   playSuccessSound, 
   playErrorSound, 
   playDropSound, 
   playColorSound, 
   playCompleteSound,
-  playVoiceMessage,
-  playClickSound 
+  playClickSound,
+  MusicMood,
+  startMusic,
+  stopMusic
 } from '../utils/SoundManager';
 import './GamePage.css';
 import './IranianTheme.css';
@@ -19,26 +61,21 @@ interface GameState {
   score: number;
   isPlaying: boolean;
   totalScore: number;
+  mode: GameMode;
 }
 
 interface GamePageProps {
   gameState: GameState;
+  levels: LevelDefinition[];
+  // بهترین امتیاز قبلی همین حالت بازی، برای نشان دادن رکورد تازه
+  highScore: number;
   onNextLevel: () => void;
   onResetGame: () => void;
+  onExitRun: () => void;
   onCompleteRun: () => void;
   onAwardPoints?: (points: number) => void;
-}
-
-interface ChocolateItem {
-  id: string;
-  type: 'cocoa' | 'orange' | 'strawberry';
-  placed: boolean;
-}
-
-interface BoxItem {
-  id: string;
-  chocolates: ChocolateItem[];
-  color: string | null;
+  savedBoard?: SavedBoard | null;
+  onBoardChange?: (state: EngineState) => void;
 }
 
 interface DragItem {
@@ -49,7 +86,7 @@ interface DragItem {
 interface ChocolateDragItem extends DragItem {
   type: 'chocolate';
   id: string;
-  chocolateType: 'cocoa' | 'orange' | 'strawberry';
+  chocolateType: Flavor;
   placed: boolean;
 }
 
@@ -60,26 +97,126 @@ interface ColorDragItem extends DragItem {
   emoji: string;
 }
 
-const LEVELS = [
-  { chocolates: 6, name: 'مرحله اول', presetBoxes: true },
-  { chocolates: 8, name: 'مرحله دوم', presetBoxes: false },
-  { chocolates: 12, name: 'مرحله سوم', presetBoxes: false },
-  { chocolates: 7, name: 'مرحله چهارم', presetBoxes: false, specialMessage: 'سفارش جدید 7 تا شکلات هست، توی تقسیم بندی دقت کن.' }
-];
-
 const CHOCOLATE_TYPES = [
-  { type: 'cocoa' as const, emoji: '🍫', name: 'شکلاتی' },
-  { type: 'orange' as const, emoji: '🍫', name: 'پرتغالی' },
-  { type: 'strawberry' as const, emoji: '🍫', name: 'توت‌فرنگی' }
+  { type: 'cocoa' as const, emoji: '🍫' },
+  { type: 'orange' as const, emoji: '🍫' },
+  { type: 'strawberry' as const, emoji: '🍫' }
 ];
 
 const COLORS = [
-  { color: '#8B4513', name: 'شکلاتی', emoji: '🍫' },
-  { color: '#FF8C00', name: 'پرتقالی', emoji: '🍊' },
-  { color: '#DC143C', name: 'توت فرنگی', emoji: '🍓' }
+  { id: 'brown' as const, color: '#8B4513', emoji: '🍫' },
+  { id: 'orange' as const, color: '#FF8C00', emoji: '🍊' },
+  { id: 'red' as const, color: '#DC143C', emoji: '🍓' }
 ];
 
-const Chocolate: React.FC<{ chocolate: ChocolateItem; isDisabled?: boolean }> = ({ chocolate, isDisabled }) => {
+type Translate = I18nContextValue['t'];
+
+const problemList = (t: Translate, mismatch: BoxMismatch, separator: MessageKey) =>
+  mismatch.problems.map(problem => t(`problem.${problem}`)).join(t(separator));
+
+// متن یک ردیف سفارش، مثلاً «2 جعبه توت‌فرنگی با کادوی توت فرنگی»
+const describeOrderLine = (t: Translate, line: OrderLine): string => {
+  const flavor = t(`flavor.${line.flavor}`);
+  return line.color
+    ? t('order.lineWithColor', { count: line.boxes, flavor, color: t(`color.${line.color}`) })
+    : t('order.line', { count: line.boxes, flavor });
+};
+
+// راهنمایی بعد از تقسیم اشتباه؛ با تکرار اشتباه صریح‌تر می‌شود
+const packingHint = (t: Translate, diagnosis: PackingDiagnosis, failures: number, errorMessage: string): string => {
+  if (diagnosis.perBox === null) {
+    const boxCount = diagnosis.boxes.length;
+    if (failures < HINT_AFTER_FAILURES) return t('hint.noEvenSplit', { error: errorMessage, boxes: boxCount });
+    const suggestion = [...diagnosis.suggestedBoxCounts]
+      .sort((a, b) => Math.abs(a - boxCount) - Math.abs(b - boxCount))[0];
+    if (failures <= HINT_AFTER_FAILURES || suggestion === undefined) return t('hint.changeBoxCount');
+    return t('hint.tryBoxCount', { boxes: suggestion });
+  }
+
+  if (failures < HINT_AFTER_FAILURES) return t('hint.overUnder', { error: errorMessage });
+  const leftover = diagnosis.leftover && diagnosis.leftover.expected > 0
+    ? t('hint.leftover', { count: diagnosis.leftover.expected })
+    : '';
+  if (failures <= HINT_AFTER_FAILURES) return t('hint.perBox', { perBox: diagnosis.perBox, leftover });
+  const fixes = diagnosis.boxes.filter(box => box.status !== 'ok').length;
+  return t('hint.fixMarked', { fixes, perBox: diagnosis.perBox, leftover });
+};
+
+const SCORE_FACTOR_LABELS: Record<ScoreFactor, { label: MessageKey; unit: MessageKey }> = {
+  failures: { label: 'score.failures', unit: 'score.unit.times' },
+  hints: { label: 'score.hints', unit: 'score.unit.times' },
+  accuracy: { label: 'score.accuracy', unit: 'score.unit.boxes' },
+  time: { label: 'score.time', unit: 'score.unit.seconds' }
+};
+
+// کارنامه مرحله: ستاره‌ها و اینکه امتیاز از کجا کم شده
+const ScoreBreakdown: React.FC<{ score: LevelScore }> = ({ score }) => {
+  const { t, formatNumber } = useI18n();
+  return (
+    <div className="score-breakdown font-kids-body">
+      <div className="score-stars" aria-label={t('score.stars', { stars: score.stars, max: 3 })}>
+        {[1, 2, 3].map(star => (
+          <span key={star} className={star <= score.stars ? 'star-earned' : 'star-empty'}>★</span>
+        ))}
+      </div>
+      <p className="score-total text-white-strong">{t('score.levelPoints', { points: score.points, max: score.maxPoints })}</p>
+      <ul className="score-deductions">
+        {score.deductions.map(item => (
+          <li key={item.factor} className={item.points > 0 ? 'deduction-lost' : 'deduction-perfect'}>
+            <span>{t(SCORE_FACTOR_LABELS[item.factor].label)}: {t(SCORE_FACTOR_LABELS[item.factor].unit, { count: item.count })}</span>
+            <span>{item.points > 0 ? `−${formatNumber(item.points)}` : '✔'}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+// امتیاز دوری که تمام شد کنار بهترین امتیاز قبلی همان حالت بازی
+const RunRecord: React.FC<{ score: number; highScore: number }> = ({ score, highScore }) => {
+  const { t } = useI18n();
+  return (
+    <div className="run-record font-kids-body">
+      <p className="text-lg text-white-strong">{t('mode.runScore', { score })}</p>
+      <p className={score > highScore ? 'run-record-new' : 'text-white-strong'}>
+        {score > highScore ? t('mode.newRecord') : t('mode.highScore', { score: highScore })}
+      </p>
+    </div>
+  );
+};
+
+const chocolateLabel = (t: Translate, chocolate: ChocolateItem) =>
+  t('chocolate.label', { flavor: t(`flavor.${chocolate.type}`) });
+
+// تصویر شکلات یا رنگی که زیر انگشت جابه‌جا می‌شود (فقط در حالت لمسی نمایش داده می‌شود)
+const DragPreview: React.FC = () => (
+  <Preview>
+    {({ itemType, item, style }: PreviewState<DragItem>) => {
+      if (itemType === 'color') {
+        const color = COLORS.find(c => c.id === item.color);
+        return (
+          <div className="touch-drag-preview color-preview" style={{ ...style, backgroundColor: color?.color }}>
+            {color?.emoji}
+          </div>
+        );
+      }
+      return (
+        <div className="touch-drag-preview chocolate-preview" style={style}>
+          {CHOCOLATE_TYPES.find(type => type.type === item.chocolateType)?.emoji}
+        </div>
+      );
+    }}
+  </Preview>
+);
+
+// شکلات‌ها با کلیک یا Enter انتخاب می‌شوند و بعد با انتخاب جعبه در آن قرار می‌گیرند
+interface SelectableChocolateProps {
+  chocolate: ChocolateItem;
+  isSelected: boolean;
+  onSelect: (chocolate: ChocolateItem) => void;
+}
+
+const Chocolate: React.FC<SelectableChocolateProps & { isDisabled?: boolean }> = ({ chocolate, isDisabled, isSelected, onSelect }) => {
   const [{ isDragging }, drag] = useDrag(() => ({
     type: 'chocolate',
     item: { 
@@ -92,32 +229,133 @@ const Chocolate: React.FC<{ chocolate: ChocolateItem; isDisabled?: boolean }> =
     collect: (monitor: DragSourceMonitor) => ({
       isDragging: monitor.isDragging(),
     }),
-  }));
+  }), [chocolate.id, chocolate.placed, isDisabled]);
+  const { t } = useI18n();
 
-  const chocolateType = CHOCOLATE_TYPES.find(t => t.type === chocolate.type);
+  const chocolateType = CHOCOLATE_TYPES.find(type => type.type === chocolate.type);
 
   return (
     <div
       ref={drag as unknown as React.Ref<HTMLDivElement>}
-      className={`chocolate-item persian-pattern hover-persian accessible-button ${isDragging ? 'dragging' : ''} ${chocolate.placed ? 'placed' : ''}`}
+      className={`chocolate-item persian-pattern hover-persian accessible-button ${isDragging ? 'dragging' : ''} ${chocolate.placed ? 'placed' : ''} ${isSelected ? 'selected-for-move' : ''}`}
       style={{
         opacity: isDragging ? 0.5 : chocolate.placed ? 0.3 : 1,
         cursor: isDisabled || chocolate.placed ? 'not-allowed' : 'grab'
       }}
+      role="button"
+      tabIndex={isDisabled ? -1 : 0}
+      aria-label={chocolateLabel(t, chocolate)}
+      aria-pressed={isSelected}
+      data-nav-group="warehouse"
+      onClick={(event) => {
+        event.stopPropagation();
+        if (!isDisabled) onSelect(chocolate);
+      }}
+      onKeyDown={navigableKeyDown(() => !isDisabled && onSelect(chocolate))}
     >
       <span className="chocolate-emoji">{chocolateType?.emoji}</span>
     </div>
   );
 };
 
+// شکلاتی که داخل جعبه یا سینی است و می‌شود آن را به جعبه دیگر یا انبار برگرداند
+const PackedChocolate: React.FC<SelectableChocolateProps & { canMove: boolean; navGroup: string }> = ({
+  chocolate,
+  canMove,
+  navGroup,
+  isSelected,
+  onSelect
+}) => {
+  const [{ isDragging }, drag] = useDrag(() => ({
+    type: 'chocolate',
+    item: {
+      type: 'chocolate' as const,
+      id: chocolate.id,
+      chocolateType: chocolate.type,
+      placed: chocolate.placed
+    },
+    canDrag: canMove,
+    collect: (monitor: DragSourceMonitor) => ({
+      isDragging: monitor.isDragging(),
+    }),
+  }), [chocolate.id, chocolate.placed, canMove]);
+  const { t } = useI18n();
+
+  return (
+    <div
+      ref={drag as unknown as React.Ref<HTMLDivElement>}
+      className={`box-chocolate ${canMove ? 'movable' : ''} ${isDragging ? 'dragging' : ''} ${isSelected ? 'selected-for-move' : ''}`}
+      style={{ opacity: isDragging ? 0.4 : 1 }}
+      role={canMove ? 'button' : undefined}
+      tabIndex={canMove ? 0 : undefined}
+      aria-label={chocolateLabel(t, chocolate)}
+      aria-pressed={canMove ? isSelected : undefined}
+      data-nav-group={canMove ? navGroup : undefined}
+      onClick={(event) => {
+        if (!canMove) return;
+        event.stopPropagation();
+        onSelect(chocolate);
+      }}
+      onKeyDown={canMove ? navigableKeyDown(() => onSelect(chocolate)) : undefined}
+    >
+      <span className="chocolate-emoji-small">
+        {CHOCOLATE_TYPES.find(type => type.type === chocolate.type)?.emoji}
+      </span>
+    </div>
+  );
+};
+
+// انبار هم مقصد رها کردن است تا شکلات‌ها از جعبه برگردند
+const Warehouse: React.FC<{
+  className: string;
+  onReturnChocolate: (chocolate: ChocolateItem) => void;
+  // وقتی شکلاتی از جعبه انتخاب شده، انتخاب انبار آن را برمی‌گرداند
+  onActivate: () => void;
+  canReturn: boolean;
+  children: React.ReactNode;
+}> = ({ className, onReturnChocolate, onActivate, canReturn, children }) => {
+  const { t } = useI18n();
+  const [{ isOver }, drop] = useDrop({
+    accept: 'chocolate',
+    drop: (item: DragItem) => {
+      const chocolateItem = item as ChocolateDragItem;
+      if (chocolateItem.placed) {
+        onReturnChocolate({
+          id: chocolateItem.id,
+          type: chocolateItem.chocolateType,
+          placed: chocolateItem.placed
+        });
+      }
+    },
+    collect: (monitor: DropTargetMonitor) => ({
+      isOver: monitor.isOver() && (monitor.getItem() as ChocolateDragItem | null)?.placed === true,
+    }),
+  });
+
+  return (
+    <div
+      ref={drop as unknown as React.Ref<HTMLDivElement>}
+      className={`${className} ${isOver || canReturn ? 'drop-target' : ''}`}
+      role="group"
+      aria-label={t('warehouse.label')}
+      tabIndex={canReturn ? 0 : undefined}
+      onClick={onActivate}
+      onKeyDown={canReturn ? navigableKeyDown(onActivate) : undefined}
+    >
+      {children}
+    </div>
+  );
+};
+
 const ColorItem: React.FC<{ 
   color: typeof COLORS[0]; 
   isSelected: boolean;
   onColorSelect: (color: typeof COLORS[0]) => void;
 }> = ({ color, isSelected, onColorSelect }) => {
+  const { t } = useI18n();
   const [{ isDragging }, drag] = useDrag({
     type: 'color',
-    item: { color: color.name },
+    item: { color: color.id },
     collect: (monitor: DragSourceMonitor) => ({
       isDragging: monitor.isDragging(),
     }),
@@ -134,20 +372,37 @@ const ColorItem: React.FC<{
         boxShadow: isSelected ? '0 0 10px rgba(255,255,255,0.8)' : 'none'
       }}
       onClick={() => onColorSelect(color)}
+      role="radio"
+      tabIndex={0}
+      aria-checked={isSelected}
+      aria-label={t('wrapping.label', { color: t(`color.${color.id}`) })}
+      data-nav-group="colors"
+      onKeyDown={navigableKeyDown(() => onColorSelect(color))}
     >
-      <span className="color-emoji">{color.emoji}</span>
-      <span className="color-name">{color.name}</span>
+      <span className="color-emoji" aria-hidden="true">{color.emoji}</span>
+      <span className="color-name">{t(`color.${color.id}`)}</span>
     </div>
   );
 };
 
 const Box: React.FC<{ 
   box: BoxItem; 
+  index: number;
   onDropChocolate: (boxId: string, chocolate: ChocolateItem) => void;
   onDropColor: (boxId: string, color: typeof COLORS[0]) => void;
+  // کلیک یا Enter روی جعبه: گذاشتن شکلات انتخاب‌شده یا زدن رنگ انتخاب‌شده
+  onActivate: (boxId: string) => void;
   gamePhase: 'packing' | 'coloring';
-  selectedColor: typeof COLORS[0] | null;
-}> = ({ box, onDropChocolate, onDropColor, gamePhase, selectedColor }) => {
+  isTarget: boolean;
+  selectedChocolateId: string | null;
+  onSelectChocolate: (chocolate: ChocolateItem) => void;
+  mismatch?: BoxMismatch;
+  diagnosis?: BoxDiagnosis;
+  // ظرفیت ثابت جعبه؛ جاهای خالی تا همین تعداد نشان داده می‌شوند
+  capacity?: number | null;
+  onRemove?: (boxId: string) => void;
+}> = ({ box, index, onDropChocolate, onDropColor, onActivate, gamePhase, isTarget, selectedChocolateId, onSelectChocolate, mismatch, diagnosis, capacity, onRemove }) => {
+  const { t, formatNumber } = useI18n();
   const [{ isOver: isOverChocolate }, dropChocolate] = useDrop({
     accept: 'chocolate',
     drop: (item: DragItem) => {
@@ -171,7 +426,7 @@ const Box: React.FC<{
     accept: 'color',
     drop: (item: { color: string }) => {
       if (gamePhase === 'coloring') {
-        const colorItem = COLORS.find(c => c.name === item.color);
+        const colorItem = COLORS.find(c => c.id === item.color);
         if (colorItem) {
           onDropColor(box.id, colorItem);
         }
@@ -182,11 +437,14 @@ const Box: React.FC<{
     }),
   });
 
-  const handleColorClick = () => {
-    if (gamePhase === 'coloring' && selectedColor) {
-      onDropColor(box.id, selectedColor);
-    }
-  };
+  const label = [
+    t('box.label', { index: index + 1 }),
+    capacity
+      ? t('box.capacityCount', { count: box.chocolates.length, capacity })
+      : t('box.chocolateCount', { count: box.chocolates.length }),
+    box.color ? t('wrapping.label', { color: t(`color.${box.color}`) }) : null,
+    mismatch ? t('box.mistakeIn', { problems: problemList(t, mismatch, 'list.and') }) : null
+  ].filter(Boolean).join(t('list.separator'));
 
   return (
     <div
@@ -194,26 +452,58 @@ const Box: React.FC<{
         dropChocolate(node);
         dropColor(node);
       }}
-      className={`box-item persian-border hover-persian accessible-button ${isOverChocolate || isOverColor ? 'drop-target' : ''} ${box.color ? 'colored' : ''}`}
+      className={`box-item persian-border hover-persian accessible-button ${isOverChocolate || isOverColor || isTarget ? 'drop-target' : ''} ${box.color ? 'colored' : ''} ${mismatch ? 'order-mismatch' : ''} ${diagnosis && diagnosis.status !== 'ok' ? `count-${diagnosis.status}` : ''}`}
       style={{
-        backgroundColor: box.color || '#f0f0f0',
+        backgroundColor: COLORS.find(c => c.id === box.color)?.color || '#f0f0f0',
         border: `2px solid ${(isOverChocolate || isOverColor) ? 'var(--persian-blue)' : 'var(--persian-gold)'}`,
       }}
-      onClick={handleColorClick}
+      role="button"
+      tabIndex={0}
+      aria-label={label}
+      data-nav-group="boxes"
+      onClick={() => onActivate(box.id)}
+      onKeyDown={navigableKeyDown(() => onActivate(box.id))}
     >
-      <div className="box-icon">📦</div>
+      {onRemove && (
+        <button
+          className="box-remove-button"
+          title={t('box.remove')}
+          aria-label={t('box.removeNumbered', { index: index + 1 })}
+          onClick={(event) => {
+            event.stopPropagation();
+            onRemove(box.id);
+          }}
+        >
+          ✖
+        </button>
+      )}
+      {gamePhase === 'packing' && (
+        <div className="box-count-badge font-kids-body" aria-hidden="true">
+          {formatNumber(box.chocolates.length)}
+          {capacity ? `/${formatNumber(capacity)}` : null}
+          {diagnosis?.status === 'over' && ' ⬆'}
+          {diagnosis?.status === 'under' && ' ⬇'}
+        </div>
+      )}
+      <div className="box-icon" aria-hidden="true">📦</div>
       <div className="box-content">
-        {box.chocolates.map((chocolate, index) => (
-          <div key={`${chocolate.id}-${index}`} className="box-chocolate">
-            <span className="chocolate-emoji-small">
-              {CHOCOLATE_TYPES.find(t => t.type === chocolate.type)?.emoji}
-            </span>
-          </div>
+        {box.chocolates.map(chocolate => (
+          <PackedChocolate
+            key={chocolate.id}
+            chocolate={chocolate}
+            canMove={gamePhase === 'packing'}
+            navGroup={box.id}
+            isSelected={chocolate.id === selectedChocolateId}
+            onSelect={onSelectChocolate}
+          />
+        ))}
+        {gamePhase === 'packing' && capacity && Array.from({ length: Math.max(0, capacity - box.chocolates.length) }, (_, slot) => (
+          <span key={`slot-${slot}`} className="box-slot-empty" aria-hidden="true" />
         ))}
       </div>
-      {box.chocolates.length === 0 && (
+      {box.chocolates.length === 0 && !capacity && (
         <div className="box-placeholder font-kids-body text-white-strong">
-          {gamePhase === 'packing' ? 'شکلات را اینجا بکشید' : 'رنگ را اینجا بکشید'}
+          {gamePhase === 'packing' ? t('box.dropChocolate') : t('box.dropColor')}
         </div>
       )}
       {box.color && (
@@ -221,289 +511,847 @@ const Box: React.FC<{
           <span className="color-check">✨</span>
         </div>
       )}
+      {mismatch && (
+        <div className="box-mismatch-badge font-kids-body" title={mismatch.expected ? describeOrderLine(t, { boxes: 1, flavor: mismatch.expected.flavor, color: mismatch.expected.color }) : undefined}>
+          ❗ {problemList(t, mismatch, 'list.separator')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const LeftoverTray: React.FC<{
+  chocolates: ChocolateItem[];
+  onDropChocolate: (chocolate: ChocolateItem) => void;
+  onActivate: () => void;
+  gamePhase: 'packing' | 'coloring';
+  isTarget: boolean;
+  selectedChocolateId: string | null;
+  onSelectChocolate: (chocolate: ChocolateItem) => void;
+  status?: BoxDiagnosis['status'];
+}> = ({ chocolates, onDropChocolate, onActivate, gamePhase, isTarget, selectedChocolateId, onSelectChocolate, status }) => {
+  const { t } = useI18n();
+  const [{ isOver }, drop] = useDrop({
+    accept: 'chocolate',
+    drop: (item: DragItem) => {
+      if (gamePhase === 'packing') {
+        const chocolateItem = item as ChocolateDragItem;
+        onDropChocolate({
+          id: chocolateItem.id,
+          type: chocolateItem.chocolateType,
+          placed: chocolateItem.placed
+        });
+      }
+    },
+    collect: (monitor: DropTargetMonitor) => ({
+      isOver: monitor.isOver(),
+    }),
+  });
+
+  return (
+    <div
+      ref={drop as unknown as React.Ref<HTMLDivElement>}
+      className={`leftover-tray persian-border ${isOver || isTarget ? 'drop-target' : ''} ${status && status !== 'ok' ? `count-${status}` : ''}`}
+      role="button"
+      tabIndex={gamePhase === 'packing' ? 0 : undefined}
+      aria-label={`${t('leftover.name')}${t('list.separator')}${t('box.chocolateCount', { count: chocolates.length })}`}
+      data-nav-group={gamePhase === 'packing' ? 'boxes' : undefined}
+      onClick={onActivate}
+      onKeyDown={gamePhase === 'packing' ? navigableKeyDown(onActivate) : undefined}
+    >
+      <div className="leftover-tray-title font-kids-body text-white-strong">{t('leftover.title')}</div>
+      <div className="box-content">
+        {chocolates.map(chocolate => (
+          <PackedChocolate
+            key={chocolate.id}
+            chocolate={chocolate}
+            canMove={gamePhase === 'packing'}
+            navGroup="leftover"
+            isSelected={chocolate.id === selectedChocolateId}
+            onSelect={onSelectChocolate}
+          />
+        ))}
+      </div>
+      {chocolates.length === 0 && gamePhase === 'packing' && (
+        <div className="box-placeholder font-kids-body text-white-strong">
+          {t('leftover.placeholder')}
+        </div>
+      )}
     </div>
   );
 };
 
-const GamePage: React.FC<GamePageProps> = ({ gameState, onNextLevel, onResetGame, onCompleteRun, onAwardPoints }) => {
-  const [chocolates, setChocolates] = useState<ChocolateItem[]>([]);
-  const [boxes, setBoxes] = useState<BoxItem[]>([]);
-  const [gamePhase, setGamePhase] = useState<'packing' | 'coloring' | 'completed' | 'pixi'>('packing');
+const GamePage: React.FC<GamePageProps> = ({
+  gameState,
+  levels,
+  highScore,
+  onNextLevel,
+  onResetGame,
+  onExitRun,
+  onCompleteRun,
+  onAwardPoints,
+  savedBoard,
+  onBoardChange
+}) => {
+  const { t, locale, formatNumber, localizeText } = useI18n();
+  const baseLevel = levels[gameState.currentLevel - 1] || levels[levels.length - 1];
+  // متن‌های مرحله به زبان انتخاب‌شده؛ قوانین و شناسه مرحله عوض نمی‌شوند
+  const currentLevelData = useMemo(() => localizeLevel(baseLevel, locale, localizeText), [baseLevel, locale, localizeText]);
+  // صفحه ذخیره‌شده فقط اگر مال همین مرحله باشد بازیابی می‌شود
+  const [restoredBoard] = useState(() => savedBoard ? restoreBoard(savedBoard, currentLevelData) : null);
+  const {
+    state: engineState,
+    dispatch: dispatchEngine,
+    undo: undoEngine,
+    redo: redoEngine,
+    canUndo,
+    canRedo
+  } = useGameEngine(currentLevelData, restoredBoard);
+  const startedLevelRef = useRef<string | null>(restoredBoard ? currentLevelData.id : null);
+  const { chocolates, phase } = engineState;
+  // بسته‌بندی و رنگ‌آمیزی روی صفحه معمولی یا صحنه Pixi؛ پایان مرحله همیشه روی صفحه معمولی نشان داده می‌شود
+  const boardView = useSyncExternalStore(subscribeBoardView, getBoardView);
+  const showPixi = boardView === 'pixi' && phase !== 'completed';
+  // بازی جایزه‌ای که بین این سفارش و سفارش بعدی پخش می‌شود
+  const [miniGame, setMiniGame] = useState<MiniGameDefinition | null>(null);
+  const mode = gameState.mode;
+  // ساعت مسابقه با زمان؛ با هر سفارش تازه از نو پر می‌شود
+  const [timeLeft, setTimeLeft] = useState(() => getTimedSeconds(currentLevelData));
+  // اشتباه‌ها و سفارش‌های پشت سر هم بدون اشتباه در دور بی‌پایان
+  const [mistakes, setMistakes] = useState(0);
+  const [streak, setStreak] = useState(0);
+  const [bestStreak, setBestStreak] = useState(0);
+  const orderMistakeRef = useRef(false);
+  // سفارشی که وقت اضافه‌اش را گرفته؛ برگشتن و دوباره بستن جعبه‌ها وقت تازه نمی‌دهد
+  const timeBonusLevelRef = useRef<number | null>(null);
+  // امتیاز اضافه حالت بازی برای سفارشی که همین حالا تمام شد
+  const [modeBonus, setModeBonus] = useState<{ label: MessageKey; points: number } | null>(null);
+  const [runOver, setRunOver] = useState<RunEndReason | null>(null);
   const [showNPC, setShowNPC] = useState(true);
+  // خط‌هایی که راهنما باید بگوید؛ با هر key تازه از اول خوانده می‌شوند
+  const [guide, setGuide] = useState<{ lines: GuideLine[]; key: number }>({ lines: [], key: 0 });
+  const idleNudgesRef = useRef(0);
+  const dialogue = useMemo(() => getDialogue(currentLevelData), [currentLevelData]);
   const [message, setMessage] = useState('');
   const [selectedColor, setSelectedColor] = useState<typeof COLORS[0] | null>(null);
+  // شکلاتی که بدون کشیدن (با کلیک یا صفحه‌کلید) برداشته شده
+  const [selectedChocolateId, setSelectedChocolateId] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [mismatches, setMismatches] = useState<BoxMismatch[]>([]);
+  const [levelScore, setLevelScore] = useState<LevelScore | null>(null);
+  // زمان شروع مرحله و فاز جاری برای گزارش معلم
+  const levelStartedAtRef = useRef(Date.now());
+  const phaseStartedAtRef = useRef(Date.now());
 
-  const currentLevelData = LEVELS[gameState.currentLevel - 1] || LEVELS[LEVELS.length - 1];
+  const gamePhase = runOver ? 'ended' : miniGame ? 'minigame' : showPixi ? 'pixi' : phase;
+  // هر دو نما همین مدل را نشان می‌دهند؛ بعد از اولین تقسیم اشتباه وضعیت جعبه‌ها هم در آن است
+  const board = getBoardModel(engineState, mismatches);
 
-  useEffect(() => {
-    initializeLevel();
-  }, [gameState.currentLevel]);
-
-  const initializeLevel = () => {
-    const newChocolates: ChocolateItem[] = [];
-    const chocolatesPerType = Math.floor(currentLevelData.chocolates / 3);
-    const remainder = currentLevelData.chocolates % 3;
-
-    let id = 0;
-    CHOCOLATE_TYPES.forEach((type, index) => {
-      const count = chocolatesPerType + (index < remainder ? 1 : 0);
-      for (let i = 0; i < count; i++) {
-        newChocolates.push({
-          id: `chocolate-${id++}`,
-          type: type.type,
-          placed: false
+  const logPhaseTime = (finishedPhase: 'packing' | 'coloring') => {
+    const now = Date.now();
+    sessionLogger.log('phase-time', { phase: finishedPhase, durationMs: now - phaseStartedAtRef.current });
+    phaseStartedAtRef.current = now;
+  };
+
+  const logSessionEvent = (event: EngineEvent) => {
+    switch (event.type) {
+      case 'level-started':
+        levelStartedAtRef.current = Date.now();
+        phaseStartedAtRef.current = Date.now();
+        sessionLogger.setContext({ levelId: currentLevelData.id });
+        sessionLogger.log('level-start', { level: gameState.currentLevel, chocolates: getChocolateCount(currentLevelData) });
+        break;
+      case 'chocolate-dropped':
+        sessionLogger.log('drop', { chocolateId: event.chocolateId, boxId: event.boxId, fromBoxId: event.fromBoxId });
+        break;
+      case 'leftover-dropped':
+        sessionLogger.log('drop', { chocolateId: event.chocolateId, boxId: 'leftover', fromBoxId: event.fromBoxId });
+        break;
+      case 'chocolate-returned':
+        sessionLogger.log('return', { chocolateId: event.chocolateId, fromBoxId: event.fromBoxId });
+        break;
+      case 'box-added':
+        sessionLogger.log('box-added', { boxId: event.boxId });
+        break;
+      case 'box-removed':
+        sessionLogger.log('box-removed', { boxId: event.boxId, returnedChocolates: event.returnedChocolates });
+        break;
+      case 'boxes-cleared':
+        sessionLogger.log('boxes-cleared');
+        break;
+      case 'packing-succeeded':
+        sessionLogger.log('packing-succeeded', { division: formatDivision(event.division) });
+        logPhaseTime('packing');
+        break;
+      case 'packing-failed':
+        sessionLogger.log('packing-failed', {
+          attempt: event.failures,
+          boxes: event.boxCounts.length,
+          boxCounts: event.boxCounts.join('|'),
+          leftover: event.leftover,
+          flavorMismatches: event.mismatches.length
         });
-      }
-    });
-
-    setChocolates(newChocolates.sort(() => Math.random() - 0.5));
-    
-    // اگر مرحله اول است، جعبه‌های آماده ایجاد کن
-    if (currentLevelData.presetBoxes) {
-      const presetBoxCount = 2; // تعداد جعبه‌های آماده برای مرحله 1
-      const newBoxes: BoxItem[] = [];
-      
-      for (let i = 0; i < presetBoxCount; i++) {
-        newBoxes.push({
-          id: `box-${Date.now()}-${i}`,
-          chocolates: [],
-          color: null
+        // از تلاش دوم به بعد راهنمایی مشخص‌تری نشان داده می‌شود
+        if (event.mismatches.length === 0 && event.failures >= HINT_AFTER_FAILURES) {
+          sessionLogger.log('hint', { kind: 'diagnosis', level: Math.min(event.failures - HINT_AFTER_FAILURES + 1, 2) });
+        }
+        break;
+      case 'box-colored':
+        sessionLogger.log('box-colored', { boxId: event.boxId, color: event.color });
+        break;
+      case 'coloring-mismatch':
+        sessionLogger.log('coloring-mismatch', { boxes: event.mismatches.length });
+        break;
+      case 'coloring-completed':
+        logPhaseTime('coloring');
+        sessionLogger.log('level-end', {
+          points: event.score.points,
+          stars: event.score.stars,
+          packingFailures: engineState.packingFailures,
+          durationMs: Date.now() - levelStartedAtRef.current
         });
+        break;
+    }
+  };
+
+  // پیام‌های کاتالوگ با کلید خودشان خوانده می‌شوند تا صدای ضبط‌شده‌شان پیدا شود
+  const messageLine = useCallback((key: MessageKey): GuideLine => ({ id: key, text: t(key) }), [t]);
+
+  const say = useCallback((lines: GuideLine[]) => {
+    if (lines.length === 0) return;
+    setGuide(prev => ({ lines, key: prev.key + 1 }));
+  }, []);
+
+  const handleEngineEvent = (event: EngineEvent) => {
+    logSessionEvent(event);
+    switch (event.type) {
+      case 'level-started':
+        setLevelScore(null);
+        setSelectedColor(null);
+        setSelectedChocolateId(null);
+        setMismatches([]);
+        setMessage(currentLevelData.messages.intro);
+        setModeBonus(null);
+        orderMistakeRef.current = false;
+        if (mode === 'timed') setTimeLeft(getTimedSeconds(currentLevelData));
+        idleNudgesRef.current = 0;
+        cancelVoice();
+        say(dialogue.intro);
+        break;
+      case 'chocolate-dropped':
+      case 'leftover-dropped':
+      case 'chocolate-returned':
+        playDropSound();
+        setMismatches([]);
+        break;
+      case 'box-removed':
+        playClickSound();
+        setMismatches([]);
+        break;
+      case 'box-full':
+        // جعبه پر شکلات تازه نمی‌گیرد؛ بچه باید جعبه دیگری بیاورد
+        setMessage(t('hint.boxFull', { capacity: event.capacity }));
+        playErrorSound();
+        break;
+      case 'box-colored':
+        playColorSound();
+        setMismatches(prev => prev.filter(m => m.boxId !== event.boxId));
+        break;
+      case 'packing-succeeded': {
+        // در حالت باقی‌مانده، معادله تقسیم هم نمایش داده می‌شود (مثلاً 7 = 2 × 3 + 1)
+        const success = currentLevelData.allowRemainder
+          ? `${formatDivision(event.division, formatNumber)} — ${currentLevelData.messages.success}`
+          : currentLevelData.messages.success;
+        if (mode === 'timed' && timeBonusLevelRef.current !== gameState.currentLevel) {
+          timeBonusLevelRef.current = gameState.currentLevel;
+          setTimeLeft(prev => prev + TIMED_BONUS_SECONDS);
+          setMessage(`${success} ${t('mode.bonusTime', { seconds: TIMED_BONUS_SECONDS })}`);
+        } else {
+          setMessage(success);
+        }
+        say([getSuccessLine(currentLevelData)]);
+        playSuccessSound();
+        break;
       }
-      
-      setBoxes(newBoxes);
-    } else {
-      setBoxes([]);
+      case 'packing-failed':
+        // صفحه پاک نمی‌شود؛ جعبه‌های اشتباه علامت می‌خورند تا فقط همان‌ها درست شوند
+        setMismatches(event.mismatches);
+        setMessage(event.mismatches.length > 0
+          ? t('hint.flavorMismatch')
+          : packingHint(t, event.diagnosis, event.failures, currentLevelData.messages.error));
+        if (event.mismatches.length === 0) {
+          const hint = getHintLine(dialogue, event.failures);
+          if (hint) say([hint]);
+        }
+        playErrorSound();
+        countMistake();
+        break;
+      case 'packing-adjusted':
+        // جابه‌جایی روی صفحه پر فقط علامت‌ها و پیام را به‌روز می‌کند، بدون صدای خطا یا از دست دادن فرصت
+        setMismatches(event.mismatches);
+        setMessage(event.mismatches.length > 0
+          ? t('hint.flavorMismatch')
+          : packingHint(t, event.diagnosis, event.failures, currentLevelData.messages.error));
+        break;
+      case 'coloring-mismatch':
+        setMismatches(event.mismatches);
+        setMessage(t('hint.colorMismatch'));
+        playErrorSound();
+        countMistake();
+        break;
+      case 'coloring-completed':
+        setMismatches([]);
+        // ثبت امتیاز مرحله پس از تکمیل رنگ‌آمیزی
+        setLevelScore(event.score);
+        if (onAwardPoints) {
+          onAwardPoints(event.score.points);
+        }
+        awardModeBonus();
+        setMessage(t('game.completed'));
+        playCompleteSound();
+        say([messageLine('game.completedVoice')]);
+
+        // اگر مرحله آخر است، امتیازهای دور فعلی را به کل امتیازها اضافه کن
+        if (gameState.currentLevel === levels.length) {
+          sessionLogger.log('run-end', { mode, reason: 'completed', level: gameState.currentLevel });
+          onCompleteRun();
+        }
+        break;
     }
-    
-    setGamePhase('packing');
-    
-    // اگر پیام خاصی برای مرحله تعریف شده، آن را نمایش بده
-    if (currentLevelData.specialMessage) {
-       setMessage(currentLevelData.specialMessage);
-     } else {
-       setMessage(`${currentLevelData.chocolates} تا سفارش برای جشن مدرسه داریم باید سفارش ها رو آماده کنیم.`);
-     }
   };
 
-  const addBox = () => {
-    playClickSound();
-    const newBox: BoxItem = {
-      id: `box-${Date.now()}-${Math.random()}`,
-      chocolates: [],
-      color: null
-    };
-    setBoxes([...boxes, newBox]);
+  // در دور بی‌پایان هر تقسیم یا کادوی اشتباه یک فرصت کم می‌کند و رشته سفارش‌ها را می‌بُرد
+  const countMistake = () => {
+    if (mode !== 'endless' || runOver) return;
+    orderMistakeRef.current = true;
+    setStreak(0);
+    const next = mistakes + 1;
+    setMistakes(next);
+    if (next >= ENDLESS_MAX_MISTAKES) endRun('mistakes');
   };
 
-  const clearBoxes = () => {
-    // فقط برای مراحل 2، 3 و 4 فعال است (وقتی presetBoxes=false)
-    if (currentLevelData.presetBoxes) return;
+  // وقت باقی‌مانده یا رشته سفارش‌های بی‌اشتباه به امتیاز سفارش اضافه می‌شود
+  const awardModeBonus = () => {
+    let bonus: { label: MessageKey; points: number } | null = null;
+    if (mode === 'timed') {
+      bonus = { label: 'mode.timeBonusPoints', points: timeLeft * TIMED_POINTS_PER_SECOND };
+    } else if (mode === 'endless' && !orderMistakeRef.current) {
+      const next = streak + 1;
+      setStreak(next);
+      setBestStreak(prev => Math.max(prev, next));
+      bonus = { label: 'mode.streakBonusPoints', points: next * ENDLESS_STREAK_BONUS };
+    }
+    if (!bonus || bonus.points === 0) return;
+    setModeBonus(bonus);
+    onAwardPoints?.(bonus.points);
+  };
+
+  const endRun = (reason: RunEndReason) => {
+    if (runOver) return;
+    setRunOver(reason);
+    setSelectedChocolateId(null);
+    cancelVoice();
+    playCompleteSound();
+    sessionLogger.log('run-end', { mode, reason, level: gameState.currentLevel });
+    onCompleteRun();
+  };
+
+  // بعد از پایان دور صفحه دیگر حرکتی نمی‌پذیرد
+  const dispatch = (action: EngineAction): EngineEvent[] => {
+    if (runOver) return [];
+    const events = dispatchEngine(action);
+    events.forEach(handleEngineEvent);
+    return events;
+  };
+
+  const selectChocolate = (chocolate: ChocolateItem) => {
+    if (phase !== 'packing') return;
     playClickSound();
-    // پاک کردن همه جعبه‌ها
-    setBoxes([]);
-    // برگرداندن همه شکلات‌ها به انبار (placed=false)
-    setChocolates(prev => prev.map(c => ({ ...c, placed: false })));
-    // پاک کردن رنگ انتخاب‌شده و بازگشت به فاز بسته‌بندی
-    setSelectedColor(null);
-    setGamePhase('packing');
+    if (selectedChocolateId === chocolate.id) {
+      setSelectedChocolateId(null);
+      setAnnouncement(t('announce.kept', { chocolate: chocolateLabel(t, chocolate) }));
+      return;
+    }
+    setSelectedChocolateId(chocolate.id);
+    setAnnouncement(t(chocolate.placed ? 'announce.pickedFromBox' : 'announce.picked', { chocolate: chocolateLabel(t, chocolate) }));
   };
-  const handleDropChocolate = (boxId: string, chocolate: ChocolateItem) => {
-    if (chocolate.placed) return;
-
-    playDropSound();
-    setChocolates(prev => 
-      prev.map(c => c.id === chocolate.id ? { ...c, placed: true } : c)
-    );
-
-    setBoxes(prev => 
-      prev.map(box => 
-        box.id === boxId 
-          ? { ...box, chocolates: [...box.chocolates, chocolate] }
-          : box
-      )
-    );
+
+  const selectColor = (color: typeof COLORS[0]) => {
+    setSelectedColor(color);
+    setAnnouncement(t('announce.colorPicked', { color: t(`color.${color.id}`) }));
   };
 
-  const handleDropColor = (boxId: string, color: typeof COLORS[0]) => {
-    playColorSound();
-    setBoxes(prev => 
-      prev.map(box => 
-        box.id === boxId 
-          ? { ...box, color: color.color }
-          : box
-      )
-    );
+  // جای گذاشتن شکلات انتخاب‌شده؛ دستور موتور همان دستور کشیدن و رها کردن است
+  const placeSelectedChocolate = (action: (chocolateId: string) => EngineAction) => {
+    if (!selectedChocolateId) return false;
+    setSelectedChocolateId(null);
+    dispatch(action(selectedChocolateId));
+    return true;
   };
 
-  const checkPackingComplete = () => {
-    const placedChocolates = chocolates.filter(c => c.placed).length;
-    if (placedChocolates === currentLevelData.chocolates && boxes.length > 0) {
-      const chocolatesPerBox = Math.floor(currentLevelData.chocolates / boxes.length);
-      const isEvenlyDistributed = boxes.every(box => box.chocolates.length === chocolatesPerBox);
-      
-      if (isEvenlyDistributed) {
-        setGamePhase('coloring');
-        setMessage('آفرین شکلات ها رو دسته بندی کردی حالا باید رنگ جعبه ها شو مشخص کنی روی رنگی که میخوای کلیک کن و بعدش روی جعبه کلیک کن تا جعبه رنگ رنگ بشه');
-        playSuccessSound();
+  const handleBoxActivate = (boxId: string) => {
+    if (phase === 'packing') {
+      if (!placeSelectedChocolate(chocolateId => ({ type: 'DROP_CHOCOLATE', boxId, chocolateId }))) {
+        setAnnouncement(t('announce.chooseChocolate'));
+      }
+    } else if (phase === 'coloring') {
+      if (selectedColor) {
+        dispatch({ type: 'COLOR_BOX', boxId, color: selectedColor.id });
       } else {
-        // فقط برای مراحل 2، 3 و 4 (مرحله 1 بدون هشدار و ریست)
-        if (!currentLevelData.presetBoxes) {
-          setMessage('اشتباه تقسیم کردی دوباره شکلات ها رو تقسیم کن');
-          playErrorSound();
-          // بعد از 2 ثانیه، پیام را بردار و اجازه بده بازیکن دوباره تقسیم کند
-          setTimeout(() => {
-            setMessage('');
-          }, 2000);
-          // ریست کردن چینش برای امکان تقسیم دوباره
-          setBoxes(prev => prev.map(box => ({ ...box, chocolates: [], color: null })));
-          setChocolates(prev => prev.map(c => ({ ...c, placed: false })));
-          setSelectedColor(null);
-          setGamePhase('packing');
-        }
+        setAnnouncement(t('announce.chooseColor'));
       }
     }
   };
 
-  const checkColoringComplete = () => {
-    if (boxes.length > 0 && boxes.every(box => box.color)) {
-      setGamePhase('completed');
-      // ثبت امتیاز مرحله پس از تکمیل رنگ‌آمیزی
-      if (onAwardPoints) {
-        onAwardPoints(10);
-      }
-      setMessage('اوه! چقدر قشنگ شد! همه جعبه‌ها مثل رنگین‌کمون شدن! 🌈✨');
-      playCompleteSound();
-      playVoiceMessage('اوه! چقدر قشنگ شد! همه جعبه‌ها مثل رنگین‌کمون شدن!');
-  
-      // اگر مرحله 4 است، امتیازهای دور فعلی را به کل امتیازها اضافه کن
-      if (gameState.currentLevel === LEVELS.length) {
-        onCompleteRun();
+  const handleLeftoverActivate = () => {
+    placeSelectedChocolate(chocolateId => ({ type: 'DROP_LEFTOVER', chocolateId }));
+  };
+
+  const handleWarehouseActivate = () => {
+    if (!selectedPlacedChocolate) return;
+    placeSelectedChocolate(chocolateId => ({ type: 'RETURN_CHOCOLATE', chocolateId }));
+  };
+
+  const phaseMessage = useCallback((restoredPhase: EngineState['phase']) =>
+    restoredPhase === 'completed'
+      ? t('game.completed')
+      : restoredPhase === 'coloring' ? currentLevelData.messages.success : currentLevelData.messages.intro,
+  [t, currentLevelData]);
+
+  // شروع مرحله فقط با عوض شدن شناسه مرحله اجرا می‌شود؛ بقیه مقدارها تازه‌ترین نسخه از ref خوانده می‌شوند
+  const levelStartRef = useRef({ level: currentLevelData, phase: engineState.phase, phaseMessage, introLines: dialogue.intro, dispatch });
+  levelStartRef.current = { level: currentLevelData, phase: engineState.phase, phaseMessage, introLines: dialogue.intro, dispatch };
+  const levelId = currentLevelData.id;
+  useEffect(() => {
+    const { level, phase: startPhase, phaseMessage: messageFor, introLines, dispatch: dispatchStart } = levelStartRef.current;
+    // مرحله‌ای که از ذخیره بازیابی شده دوباره شروع نمی‌شود
+    if (startedLevelRef.current === levelId) {
+      setMessage(messageFor(startPhase));
+      // راهنما فقط وقتی معرفی می‌کند که هنوز چیزی نگفته باشد
+      if (startPhase === 'packing') {
+        setGuide(prev => prev.key === 0 ? { lines: introLines, key: 1 } : prev);
       }
-  
-      // حذف انتقال خودکار به مرحله Pixi پس از تکمیل
-      // قبلاً پس از ۲ ثانیه به مرحله Pixi می‌رفت
+      return;
     }
-  };
+    startedLevelRef.current = levelId;
+    dispatchStart({ type: 'START_LEVEL', level });
+  }, [levelId]);
+
+  // ذخیره فقط با تغییر صفحه نوشته می‌شود، نه با هر رندر App که callback تازه می‌سازد
+  const onBoardChangeRef = useRef(onBoardChange);
+  onBoardChangeRef.current = onBoardChange;
+  useEffect(() => {
+    onBoardChangeRef.current?.(engineState);
+  }, [engineState]);
+
+  // موسیقی پس‌زمینه تا وقتی صفحه بازی باز است پخش می‌شود و با فاز بازی حالتش عوض می‌شود
+  const musicMood: MusicMood = runOver ? 'celebration' : miniGame ? 'packing' : phase === 'completed' ? 'celebration' : phase === 'coloring' ? 'coloring' : 'packing';
+  // اگر موسیقی در حال پخش باشد، start فقط حالت را با محو شدن آرام عوض می‌کند
+  useEffect(() => {
+    startMusic(musicMood);
+  }, [musicMood]);
+
+  useEffect(() => () => {
+    stopMusic();
+    cancelVoice();
+  }, []);
+
+  // با عوض شدن زبان، پیام فاز فعلی به زبان تازه نوشته می‌شود؛ عوض شدن فاز خودش پیامش را دارد
+  const localeRef = useRef(locale);
+  useEffect(() => {
+    if (localeRef.current === locale) return;
+    localeRef.current = locale;
+    setMessage(phaseMessage(phase));
+  }, [locale, phase, phaseMessage]);
+
+  // شکلات انتخاب‌شده در یک نما به نمای دیگر نمی‌رود
+  useEffect(() => {
+    setSelectedChocolateId(null);
+  }, [boardView]);
+
+  // هر حرکت روی صفحه شمارنده بی‌کاری را از نو شروع می‌کند
+  useEffect(() => {
+    if (phase === 'completed') return;
+    const timer = window.setTimeout(() => {
+      const line = getIdleLine(dialogue, phase, idleNudgesRef.current, [messageLine('npc.coloringNudge1'), messageLine('npc.coloringNudge2')]);
+      if (!line) return;
+      idleNudgesRef.current += 1;
+      sessionLogger.log('hint', { kind: 'idle', phase });
+      say([line]);
+    }, IDLE_NUDGE_MS);
+    return () => window.clearTimeout(timer);
+  }, [engineState, phase, dialogue, messageLine, say]);
+
+  // ساعت مسابقه فقط وقتی می‌چرخد که بچه روی سفارش کار می‌کند
+  const clockRunning = mode === 'timed' && !runOver && !miniGame && phase !== 'completed';
+  useEffect(() => {
+    if (!clockRunning) return;
+    const clock = window.setInterval(() => setTimeLeft(prev => Math.max(0, prev - 1)), 1000);
+    return () => window.clearInterval(clock);
+  }, [clockRunning]);
 
+  const endRunRef = useRef(endRun);
+  endRunRef.current = endRun;
   useEffect(() => {
-    if (gamePhase === 'packing') {
-      checkPackingComplete();
-    } else if (gamePhase === 'coloring') {
-      checkColoringComplete();
+    if (clockRunning && timeLeft === 0) endRunRef.current('time');
+  }, [clockRunning, timeLeft]);
+
+  // بعد از برگشت یا تکرار، پیام با فاز بازی هماهنگ می‌شود
+  const handleHistoryStep = (restored: EngineState | null) => {
+    if (!restored) return;
+    playClickSound();
+    setMismatches([]);
+    setSelectedChocolateId(null);
+    if (restored.phase !== phase) {
+      setSelectedColor(null);
+      setMessage(phaseMessage(restored.phase));
     }
-  }, [chocolates, boxes, gamePhase]);
+  };
+
+  const undo = () => {
+    if (runOver) return;
+    const restored = undoEngine();
+    if (restored) sessionLogger.log('undo', { phase: restored.phase });
+    handleHistoryStep(restored);
+  };
+
+  const redo = () => {
+    if (runOver) return;
+    const restored = redoEngine();
+    if (restored) sessionLogger.log('redo', { phase: restored.phase });
+    handleHistoryStep(restored);
+  };
+
+  // میانبرهای صفحه‌کلید: Ctrl+Z برگشت، Ctrl+Shift+Z یا Ctrl+Y تکرار
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Escape شکلات یا رنگ انتخاب‌شده را رها می‌کند
+      if (event.key === 'Escape' && (selectedChocolateId || selectedColor)) {
+        setSelectedChocolateId(null);
+        setSelectedColor(null);
+        setAnnouncement(t('announce.cancelled'));
+        return;
+      }
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
+  const addBox = () => {
+    if (!board.canAddBox) return;
+    playClickSound();
+    dispatch({ type: 'ADD_BOX' });
+  };
 
+  const clearBoxes = () => {
+    // فقط برای مراحلی که جعبه آماده ندارند فعال است
+    if (!board.canClearBoxes) return;
+    playClickSound();
+    // پاک کردن همه جعبه‌ها و برگرداندن شکلات‌ها به انبار
+    dispatch({ type: 'CLEAR_BOXES' });
+    // پاک کردن رنگ انتخاب‌شده
+    setSelectedColor(null);
+  };
+
+  const handleDropChocolate = (boxId: string, chocolate: ChocolateItem) => {
+    dispatch({ type: 'DROP_CHOCOLATE', boxId, chocolateId: chocolate.id });
+  };
+
+  const handleReturnChocolate = (chocolate: ChocolateItem) => {
+    dispatch({ type: 'RETURN_CHOCOLATE', chocolateId: chocolate.id });
+  };
+
+  const handleRemoveBox = (boxId: string) => {
+    dispatch({ type: 'REMOVE_BOX', boxId });
+  };
+
+  const handleDropLeftover = (chocolate: ChocolateItem) => {
+    dispatch({ type: 'DROP_LEFTOVER', chocolateId: chocolate.id });
+  };
+
+  const handleDropColor = (boxId: string, color: typeof COLORS[0]) => {
+    dispatch({ type: 'COLOR_BOX', boxId, color: color.id });
+  };
+
+  // دکمه مرحله بعد فقط تا پیش از مرحله آخر نشان داده می‌شود
   const handleNextLevel = () => {
-    if (gameState.currentLevel < LEVELS.length) {
-      // Move to next level first
-      onNextLevel();
-      // Then initialize the new level (this will be called by useEffect)
-    } else {
-      setMessage('وای! تو واقعاً یه قهرمان بسته‌بندی شکلات هستی! همه سفارشا رو تحویل دادی! 🏆⭐');
-      playCompleteSound();
-      // نمایش دکمه شروع دوباره بعد از مرحله 4
-      setTimeout(() => {
-        onResetGame();
-      }, 3000);
+    // اگر بازی جایزه‌ای بعد از این مرحله مجاز است، اول آن پخش می‌شود؛ چالش‌ها بی‌وقفه ادامه دارند
+    const bonus = mode === 'story' ? getMiniGameAfter(currentLevelData, gameState.currentLevel) : null;
+    if (bonus) {
+      sessionLogger.log('minigame-start', { miniGame: bonus.id });
+      setMiniGame(bonus);
+      return;
     }
+    // Move to next level first
+    onNextLevel();
+    // Then initialize the new level (this will be called by useEffect)
   };
 
-  const unplacedChocolates = chocolates.filter(c => !c.placed);
-
-  const handlePixiComplete = () => {
-    // Set completion message
-    setMessage('🎉 عالی! مرحله تکمیل شد! 🎉');
-    setGamePhase('completed');
+  const handleMiniGameFinish = (result: MiniGameResult) => {
+    if (!miniGame) return;
+    sessionLogger.log('minigame-end', { miniGame: miniGame.id, score: result.score });
+    if (result.score > 0 && onAwardPoints) {
+      onAwardPoints(result.score);
+    }
+    setMiniGame(null);
+    onNextLevel();
   };
 
+  const selectedPlacedChocolate = !!chocolates.find(c => c.id === selectedChocolateId)?.placed;
+
+  // ساعت مسابقه یا رشته سفارش‌ها و فرصت‌های باقی‌مانده
+  const modeStatus = mode !== 'story' && (
+    <div className="mode-status font-kids-body mb-6">
+      {mode === 'timed' && (
+        <span className={`mode-status-item ${timeLeft <= 10 ? 'mode-clock-low' : ''}`}>
+          {t('mode.timeLeft', { seconds: timeLeft })}
+        </span>
+      )}
+      {mode === 'endless' && (
+        <>
+          <span className="mode-status-item">{t('mode.streak', { count: streak })}</span>
+          <span className="mode-status-item">{t('mode.mistakesLeft', { count: ENDLESS_MAX_MISTAKES - mistakes })}</span>
+        </>
+      )}
+    </div>
+  );
+
+  // برگشت و تکرار حرکت‌ها
+  const historyControls = (
+    <div className="history-controls mb-6">
+      <button
+        className="kids-button-persian accessible-button history-button"
+        onClick={undo}
+        disabled={!canUndo || !!runOver}
+        title={t('history.undoTitle')}
+      >
+        {t('history.undo')}
+      </button>
+      <button
+        className="kids-button-persian accessible-button history-button"
+        onClick={redo}
+        disabled={!canRedo || !!runOver}
+        title={t('history.redoTitle')}
+      >
+        {t('history.redo')}
+      </button>
+    </div>
+  );
+
+  // راهنما و زیرنویس در هر دو نما هستند؛ در نمای Pixi داخل لایه صحنه می‌نشینند تا زیر آن پنهان نشوند
+  const npcGuide = (
+    <NPCGuide
+      lines={guide.lines}
+      lineKey={guide.key}
+      visible={showNPC}
+      onToggle={() => setShowNPC(prev => !prev)}
+    />
+  );
+
   return (
-    <div className={`game-page bg-gradient-persian-gulf rtl-support ${gamePhase === 'completed' ? 'completed-state' : ''}`}>
+    <div className={`game-page bg-gradient-persian-gulf rtl-support ${gamePhase === 'completed' || gamePhase === 'ended' ? 'completed-state' : ''}`}>
       {gamePhase === 'pixi' && (
         <div className="pixi-overlay">
           <PixiGame 
             key={`pixi-${gameState.currentLevel}`} 
-            onComplete={handlePixiComplete} 
-            level={gameState.currentLevel} 
+            level={currentLevelData}
+            levelNumber={gameState.currentLevel}
+            board={board}
+            onAction={dispatch}
+            message={message}
           />
+          <div className="pixi-overlay-controls">
+            <BoardViewSwitch />
+          </div>
+          {/* ساعت، فرصت‌ها و برگشت حرکت باید روی صحنه هم در دسترس باشند */}
+          <div className="pixi-overlay-hud">
+            {modeStatus}
+            {historyControls}
+          </div>
+          {npcGuide}
+          <Subtitles />
         </div>
       )}
       
+      {gamePhase === 'minigame' && miniGame && (
+        <MiniGameHost
+          key={`minigame-${gameState.currentLevel}`}
+          miniGame={miniGame}
+          level={currentLevelData}
+          onFinish={handleMiniGameFinish}
+        />
+      )}
+
+      <DragPreview />
+
+      {gamePhase !== 'pixi' && gamePhase !== 'minigame' && gamePhase !== 'ended' && npcGuide}
+      {gamePhase !== 'pixi' && <Subtitles />}
+
       {/* هدر بازی با طراحی ایرانی */}
       <div className="text-center mb-8 fade-in-persian">
         <h1 className="text-4xl font-bold text-white mb-4 font-kids-title iranian-star drop-shadow-lg">
-          بازی بسته‌بندی شکلات 🍫
+          {t('app.title')}
         </h1>
-        <p className="text-lg text-white font-kids-body drop-shadow-md">مرحله {gameState.currentLevel} - امتیاز این مرحله: 10</p>
+        <p className="text-lg text-white font-kids-body drop-shadow-md">{t('game.header', { level: gameState.currentLevel, score: gameState.score })}</p>
+        <div className="game-header-controls">
+          <LanguageSwitch />
+          <BoardViewSwitch />
+          <AudioSettingsPanel />
+        </div>
       </div>
 
-      {/* نوار پیشرفت ایرانی */}
-      <div className="mb-8">
-        <div className="progress-container-iranian shadow-lg">
-          <div 
-            className="progress-bar-iranian transition-all duration-500" 
-            style={{ width: `${(gameState.currentLevel / LEVELS.length) * 100}%` }}
-          ></div>
+      {/* نوار پیشرفت ایرانی؛ دور بی‌پایان پایانی ندارد که پیشرفتش نشان داده شود */}
+      {mode !== 'endless' && (
+        <div className="mb-8">
+          <div className="progress-container-iranian shadow-lg">
+            <div 
+              className="progress-bar-iranian transition-all duration-500" 
+              style={{ width: `${(gameState.currentLevel / levels.length) * 100}%` }}
+            ></div>
+          </div>
         </div>
+      )}
+
+      {gamePhase !== 'pixi' && modeStatus}
+
+      {/* اعلان‌های صفحه‌خوان: انتخاب‌ها و تعداد شکلات هر جعبه */}
+      <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+      <div className="sr-only" aria-live="polite">
+        {phase === 'packing' && [
+          ...board.boxes.map(box => t('announce.boxCount', { index: box.index + 1, count: box.chocolates.length })),
+          t('announce.warehouseCount', { count: board.warehouse.length }),
+          ...(board.hasLeftoverTray ? [t('announce.leftoverCount', { count: board.leftover.length })] : [])
+        ].join(t('list.separator'))}
       </div>
 
       {/* پیام بازی */}
-      <div className={`game-card-iranian mb-6 text-center message-card`}>
+      <div className={`game-card-iranian mb-6 text-center message-card`} role="status" aria-live="polite">
         <p className={`font-kids-body text-lg stage1-message-highlight stage1-message-emphasis`}>{message}</p>
       </div>
 
+      {gamePhase !== 'pixi' && historyControls}
+
+      {/* سفارش مشتری */}
+      {currentLevelData.order && (
+        <div className="game-card-iranian persian-border mb-6 order-card">
+          <h3 className="font-kids-title text-xl mb-2 text-center text-white-enhanced">{t('order.title')}</h3>
+          <ul className="order-lines font-kids-body text-white-strong">
+            {currentLevelData.order.map((line, index) => (
+              <li key={index}>{describeOrderLine(t, line)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {gamePhase === 'completed' && (
-        <div className={`completion-overlay ${gameState.currentLevel >= LEVELS.length ? 'final-congrats' : ''}`}>
-          <div className={`game-card-iranian persian-border bounce-persian text-center p-8 ${gameState.currentLevel >= LEVELS.length ? 'final-congrats-card' : ''}`}>
-            {gameState.currentLevel < LEVELS.length ? (
+        <div className={`completion-overlay ${gameState.currentLevel >= levels.length ? 'final-congrats' : ''}`}>
+          <div className={`game-card-iranian persian-border bounce-persian text-center p-8 ${gameState.currentLevel >= levels.length ? 'final-congrats-card' : ''}`}>
+            {gameState.currentLevel < levels.length ? (
               <>
-                <h2 className="font-kids-title text-3xl mb-4 text-white-enhanced">🎉 تبریک! 🎉</h2>
-                <p className="font-kids-body text-lg mb-6 text-white-strong">از یه مراسم دیگه سفارش گرفتیم!</p>
+                <h2 className="font-kids-title text-3xl mb-4 text-white-enhanced">{t('completion.congrats')}</h2>
+                {currentLevelData.messages.lesson && (
+                  <p className="font-kids-body text-lg mb-4 text-white-strong">{currentLevelData.messages.lesson}</p>
+                )}
+                {levelScore && <ScoreBreakdown score={levelScore} />}
+                {modeBonus && <p className="font-kids-body text-lg mb-4 text-white-strong">{t(modeBonus.label, { points: modeBonus.points })}</p>}
+                <p className="font-kids-body text-lg mb-6 text-white-strong">{t('completion.nextOrder')}</p>
                 <button className="kids-button-persian accessible-button" onClick={handleNextLevel}>
-                  بریم سرکار
+                  {t('completion.goToWork')}
                 </button>
               </>
             ) : (
               <>
                 {/* تصویر/ایلاستریشن ساده بالا */}
                 <div className="final-congrats-illustration" aria-hidden="true">👦</div>
-                <h2 className="font-kids-title text-3xl mb-2 text-white-enhanced">🎉 تبریک! 🎉</h2>
-                <p className="font-kids-body text-xl mb-3 text-white-strong">آفرین همه سفارش ها رو بسته بندی و رنگ کردی</p>
-                <p className="font-kids-body text-lg mb-5 text-white-strong">نتیجه میگیریم که عدد 7 یک عدد اول هست که فقط بر خودش و عدد 1 قابل تقسیم کردن هستش.</p>
-                <p className="font-kids-body text-lg mb-6 final-total-score">کل امتیازهای شما: <span className="final-total-score-number">{gameState.totalScore}</span></p>
-                <button className="kids-button-persian accessible-button" onClick={onResetGame}>
-                  شروع دوباره بازی
-                </button>
+                <h2 className="font-kids-title text-3xl mb-2 text-white-enhanced">{t('completion.congrats')}</h2>
+                <p className="font-kids-body text-xl mb-3 text-white-strong">{t('completion.allPacked')}</p>
+                {currentLevelData.messages.lesson && (
+                  <p className="font-kids-body text-lg mb-5 text-white-strong">{currentLevelData.messages.lesson}</p>
+                )}
+                {levelScore && <ScoreBreakdown score={levelScore} />}
+                {modeBonus && <p className="font-kids-body text-lg mb-4 text-white-strong">{t(modeBonus.label, { points: modeBonus.points })}</p>}
+                <RunRecord score={gameState.score} highScore={highScore} />
+                <p className="font-kids-body text-lg mb-6 final-total-score">{t('completion.totalScore')} <span className="final-total-score-number">{formatNumber(gameState.totalScore)}</span></p>
+                <div className="run-over-actions">
+                  <button className="kids-button-persian accessible-button" onClick={onResetGame}>
+                    {t('completion.restart')}
+                  </button>
+                  <button className="kids-button-persian accessible-button" onClick={onExitRun}>
+                    {t('mode.menu')}
+                  </button>
+                </div>
               </>
             )}
           </div>
         </div>
       )}
 
+      {/* پایان مسابقه با زمان یا دور بی‌پایان پیش از تمام شدن سفارش‌ها */}
+      {gamePhase === 'ended' && runOver && (
+        <div className="completion-overlay">
+          <div className="game-card-iranian persian-border bounce-persian text-center p-8">
+            <h2 className="font-kids-title text-3xl mb-4 text-white-enhanced">
+              {t(runOver === 'time' ? 'mode.timeUp' : 'mode.outOfMistakes')}
+            </h2>
+            <p className="font-kids-body text-xl mb-3 text-white-strong">{t('mode.ordersDone', { count: gameState.currentLevel - 1 })}</p>
+            {mode === 'endless' && (
+              <p className="font-kids-body text-lg mb-3 text-white-strong">{t('mode.bestStreak', { count: bestStreak })}</p>
+            )}
+            <RunRecord score={gameState.score} highScore={highScore} />
+            <div className="run-over-actions">
+              <button className="kids-button-persian accessible-button" onClick={onResetGame}>
+                {t('completion.restart')}
+              </button>
+              <button className="kids-button-persian accessible-button" onClick={onExitRun}>
+                {t('mode.menu')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* UI ویژه مرحله ۱: فقط ظاهر و UX چیدن شکلات‌ها داخل جعبه‌ها */}
-      {currentLevelData.presetBoxes ? (
-        <div className="stage1-packing-ui">
+      {currentLevelData.presetBoxes > 0 ? (
+        <div className="stage1-packing-ui" inert={!!runOver}>
 
           {gamePhase === 'packing' ? (
             <div className="stage1-warehouse-card game-card-iranian persian-border">
-              <h3 className="font-kids-title text-2xl mb-4 text-center text-white-enhanced">انبار شکلات 🍫</h3>
-              <div className="chocolate-warehouse stage1-warehouse-row">
-                {unplacedChocolates.map(chocolate => (
-                  <Chocolate key={chocolate.id} chocolate={chocolate} />
+              <h3 className="font-kids-title text-2xl mb-4 text-center text-white-enhanced">{t('warehouse.title')}</h3>
+              <Warehouse
+                className="chocolate-warehouse stage1-warehouse-row"
+                onReturnChocolate={handleReturnChocolate}
+                onActivate={handleWarehouseActivate}
+                canReturn={selectedPlacedChocolate}
+              >
+                {board.warehouse.map(chocolate => (
+                  <Chocolate
+                    key={chocolate.id}
+                    chocolate={chocolate}
+                    isSelected={chocolate.id === selectedChocolateId}
+                    onSelect={selectChocolate}
+                  />
                 ))}
-              </div>
+              </Warehouse>
             </div>
           ) : gamePhase === 'coloring' ? (
             <div className="game-card-iranian persian-border">
-              <h3 className="font-kids-title text-2xl mb-4 text-center text-white-enhanced">رنگ‌آمیزی جعبه‌ها 🎨</h3>
-              <div className="colors-grid">
+              <h3 className="font-kids-title text-2xl mb-4 text-center text-white-enhanced">{t('coloring.title')}</h3>
+              <div className="colors-grid" role="radiogroup" aria-label={t('coloring.groupLabel')}>
                 {COLORS.map((color) => (
                   <ColorItem 
-                    key={color.name} 
+                    key={color.id} 
                     color={color} 
-                    isSelected={selectedColor?.name === color.name}
-                    onColorSelect={setSelectedColor}
+                    isSelected={selectedColor?.id === color.id}
+                    onColorSelect={selectColor}
                   />
                 ))}
               </div>
@@ -512,81 +1360,127 @@ const GamePage: React.FC<GamePageProps> = ({ gameState, onNextLevel, onResetGame
 
           <div className="stage1-boxes-card game-card-iranian persian-border">
             <div className="stage1-boxes-header">
-              <h3 className="font-kids-title text-2xl mb-2 text-center text-white-enhanced">جعبه‌ها 📦</h3>
-              <button className="add-box-button disabled" disabled title="در این مرحله جعبه‌ها از قبل چیده شده‌اند">
-                اضافه کردن جعبه
+              <h3 className="font-kids-title text-2xl mb-2 text-center text-white-enhanced">{t('boxes.title')}</h3>
+              <button
+                className={`add-box-button ${board.canAddBox ? '' : 'disabled'}`}
+                disabled={!board.canAddBox}
+                onClick={addBox}
+                title={board.canAddBox ? undefined : t('boxes.preset')}
+              >
+                {t('boxes.add')}
               </button>
             </div>
             <div className="boxes-container boxes-row-stage1">
-              {boxes.map(box => (
+              {board.boxes.map(box => (
                 <Box
                   key={box.id}
                   box={box}
+                  index={box.index}
                   onDropChocolate={handleDropChocolate}
                   onDropColor={handleDropColor}
+                  onActivate={handleBoxActivate}
                   gamePhase={gamePhase === 'coloring' ? 'coloring' : 'packing'}
-                  selectedColor={selectedColor}
+                  isTarget={!!selectedChocolateId || (phase === 'coloring' && !!selectedColor)}
+                  selectedChocolateId={selectedChocolateId}
+                  onSelectChocolate={selectChocolate}
+                  mismatch={box.mismatch}
+                  diagnosis={box.diagnosis}
                 />
               ))}
             </div>
           </div>
         </div>
       ) : (
-        <div className="game-content">
+        <div className="game-content" inert={!!runOver}>
           {gamePhase === 'packing' && (
             <div className="warehouse-section">
               <div className="game-card-iranian persian-border mb-6">
-                <h3 className="font-kids-title text-2xl mb-4 text-center text-white-enhanced">انبار شکلات 🍫</h3>
-                <div className="chocolate-warehouse">
-                  {unplacedChocolates.map(chocolate => (
-                    <Chocolate key={chocolate.id} chocolate={chocolate} />
+                <h3 className="font-kids-title text-2xl mb-4 text-center text-white-enhanced">{t('warehouse.title')}</h3>
+                <Warehouse
+                  className="chocolate-warehouse"
+                  onReturnChocolate={handleReturnChocolate}
+                  onActivate={handleWarehouseActivate}
+                  canReturn={selectedPlacedChocolate}
+                >
+                  {board.warehouse.map(chocolate => (
+                    <Chocolate
+                      key={chocolate.id}
+                      chocolate={chocolate}
+                      isSelected={chocolate.id === selectedChocolateId}
+                      onSelect={selectChocolate}
+                    />
                   ))}
-                </div>
+                </Warehouse>
               </div>
             </div>
           )}
 
           <div className="packing-section">
             <div className="game-card-iranian persian-border mb-6">
-              <h3 className="font-kids-title text-2xl mb-4 text-center text-white-enhanced">جعبه‌ها 📦</h3>
-              {/* نمایش دکمه اضافه کردن جعبه فقط در مراحل 2 و 3 */}
-              {!currentLevelData.presetBoxes && (
+              <h3 className="font-kids-title text-2xl mb-4 text-center text-white-enhanced">{t('boxes.title')}</h3>
+              {board.boxCapacity && (
+                <p className="box-capacity-note font-kids-body text-center text-white-strong mb-3">
+                  {t('boxes.capacity', { capacity: board.boxCapacity })}
+                </p>
+              )}
+              {/* نمایش دکمه اضافه کردن جعبه فقط در مراحل بدون جعبه آماده */}
+              {currentLevelData.presetBoxes === 0 && (
                 <div className="text-center mb-4">
-                  <button className="kids-button-persian accessible-button" onClick={addBox}>
-                    اضافه کردن جعبه
+                  <button className="kids-button-persian accessible-button" onClick={addBox} disabled={!board.canAddBox}>
+                    {t('boxes.add')}
                   </button>
                   {gamePhase === 'packing' && (
                     <button className="kids-button-persian accessible-button ml-3" onClick={clearBoxes}>
-                      پاک کردن جعبه‌ها
+                      {t('boxes.clear')}
                     </button>
                   )}
                 </div>
               )}
               <div className="boxes-container">
-                {boxes.map(box => (
+                {board.boxes.map(box => (
                   <Box
                     key={box.id}
                     box={box}
+                    index={box.index}
                     onDropChocolate={handleDropChocolate}
                     onDropColor={handleDropColor}
+                    onActivate={handleBoxActivate}
                     gamePhase={gamePhase === 'coloring' ? 'coloring' : 'packing'}
-                    selectedColor={selectedColor}
+                    isTarget={!!selectedChocolateId || (phase === 'coloring' && !!selectedColor)}
+                    selectedChocolateId={selectedChocolateId}
+                    onSelectChocolate={selectChocolate}
+                    mismatch={box.mismatch}
+                    diagnosis={box.diagnosis}
+                    capacity={board.boxCapacity}
+                    onRemove={board.canRemoveBox ? handleRemoveBox : undefined}
                   />
                 ))}
               </div>
+              {board.hasLeftoverTray && (
+                <LeftoverTray
+                  chocolates={board.leftover}
+                  onDropChocolate={handleDropLeftover}
+                  onActivate={handleLeftoverActivate}
+                  isTarget={!!selectedChocolateId}
+                  selectedChocolateId={selectedChocolateId}
+                  onSelectChocolate={selectChocolate}
+                  gamePhase={gamePhase === 'coloring' ? 'coloring' : 'packing'}
+                  status={board.leftoverStatus}
+                />
+              )}
             </div>
           </div>
 
           {gamePhase === 'coloring' && (
             <div className="game-card-iranian persian-border mb-6">
-              <h3 className="font-kids-title text-2xl mb-4 text-center text-white-enhanced">رنگ‌آمیزی جعبه‌ها 🎨</h3>
-              <div className="colors-grid">
+              <h3 className="font-kids-title text-2xl mb-4 text-center text-white-enhanced">{t('coloring.title')}</h3>
+              <div className="colors-grid" role="radiogroup" aria-label={t('coloring.groupLabel')}>
                 {COLORS.map((color) => (
                   <ColorItem 
-                    key={color.name} 
+                    key={color.id} 
                     color={color} 
-                    isSelected={selectedColor?.name === color.name}
-                    onColorSelect={setSelectedColor}
+                    isSelected={selectedColor?.id === color.id}
+                    onColorSelect={selectColor}
                   />
                 ))}
               </div>
@@ -0,0 +1,25 @@
+import React from 'react';
+import { useI18n } from '../i18n';
+import { playClickSound } from '../utils/SoundManager';
+import './IranianTheme.css';
+
+// دکمه کوچک عوض کردن زبان بازی بین فارسی و انگلیسی
+const LanguageSwitch: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+  const next = locale === 'fa' ? 'en' : 'fa';
+
+  return (
+    <button
+      className="language-switch font-kids-body accessible-button"
+      onClick={() => {
+        playClickSound();
+        setLocale(next);
+      }}
+      lang={next}
+    >
+      {t('language.switch')}
+    </button>
+  );
+};
+
+export default LanguageSwitch;
@@ -1,15 +1,55 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { PROFILE_AVATARS, PlayerProfile, ProfileProgress } from '../game/persistence';
+import { GameMode } from '../game/modes';
+import { useI18n } from '../i18n';
+import LanguageSwitch from './LanguageSwitch';
 import './LoginPage.css';
 import './IranianTheme.css';
 
 interface LoginPageProps {
-  onStartGame: () => void;
+  profiles: PlayerProfile[];
+  progress: Record<string, ProfileProgress>;
+  activeProfileId: string | null;
+  onSelectProfile: (profileId: string) => void;
+  onCreateProfile: (name: string, avatar: string) => void;
+  // بهترین امتیاز بازیکن انتخاب‌شده در هر حالت بازی
+  highScores: Partial<Record<GameMode, number>>;
+  onStartGame: (mode: GameMode) => void;
+  // فقط وقتی بازی ذخیره‌شده‌ای برای بازیکن انتخاب‌شده وجود دارد
+  onContinueGame?: () => void;
+  onOpenSettings: () => void;
 }
 
-const LoginPage: React.FC<LoginPageProps> = ({ onStartGame }) => {
+const LoginPage: React.FC<LoginPageProps> = ({
+  profiles,
+  progress,
+  activeProfileId,
+  onSelectProfile,
+  onCreateProfile,
+  highScores,
+  onStartGame,
+  onContinueGame,
+  onOpenSettings
+}) => {
+  const { t, formatNumber } = useI18n();
+  const [isCreating, setIsCreating] = useState(profiles.length === 0);
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState(PROFILE_AVATARS[0]);
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    onCreateProfile(name, avatar);
+    setName('');
+    setIsCreating(false);
+  };
+
   return (
     <div className="login-page bg-gradient-persian-gulf rtl-support">
       <div className="login-container game-card-iranian persian-border start-card">
+        <LanguageSwitch />
+
         {/* تزئین بادکنک‌ها */}
         <div className="balloons-decor" aria-hidden="true">
           <span className="balloon balloon-left">🎈</span>
@@ -18,20 +58,120 @@ const LoginPage: React.FC<LoginPageProps> = ({ onStartGame }) => {
 
         {/* متن شروع بازی مطابق دستور */}
         <div className="start-message">
-          <p className="font-kids-title start-line">سلام دوست من</p>
+          <p className="font-kids-title start-line">
+            {t('login.greeting', { name: activeProfile ? `${activeProfile.name} ${activeProfile.avatar}` : t('login.friend') })}
+          </p>
           <p className="font-kids-body start-line">
-            قراره ما شکلات هایی رو که برای جشن مدرسه و جشن تولد سفارش میدن بسته بندی و رنگ کنیم
+            {t('login.intro')}
           </p>
-          <p className="font-kids-body start-line">خب آماده ای؟</p>
+          <p className="font-kids-body start-line">{t('login.ready')}</p>
         </div>
 
-        {/* دکمه شروع بازی */}
-        <button className="kids-button-persian accessible-button start-button" onClick={onStartGame}>
-          بریم سرکار
+        {/* انتخاب بازیکن */}
+        {profiles.length > 0 && !isCreating && (
+          <div className="profile-picker">
+            <p className="font-kids-body profile-picker-title">{t('login.whoIsPlaying')}</p>
+            <div className="profile-list">
+              {profiles.map(profile => (
+                <button
+                  key={profile.id}
+                  className={`profile-card accessible-button ${profile.id === activeProfileId ? 'selected' : ''}`}
+                  onClick={() => onSelectProfile(profile.id)}
+                  aria-pressed={profile.id === activeProfileId}
+                >
+                  <span className="profile-avatar">{profile.avatar}</span>
+                  <span className="profile-name font-kids-body">{profile.name}</span>
+                  <span className="profile-score font-kids-body">⭐ {formatNumber(progress[profile.id]?.totalScore ?? 0)}</span>
+                </button>
+              ))}
+              <button className="profile-card profile-card-new accessible-button" onClick={() => setIsCreating(true)}>
+                <span className="profile-avatar">➕</span>
+                <span className="profile-name font-kids-body">{t('login.newPlayer')}</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* ساخت بازیکن جدید */}
+        {isCreating && (
+          <form className="profile-form" onSubmit={handleCreate}>
+            <label className="font-kids-body profile-picker-title" htmlFor="profile-name">{t('login.whatsYourName')}</label>
+            <input
+              id="profile-name"
+              className="profile-name-input font-kids-body"
+              value={name}
+              maxLength={20}
+              onChange={event => setName(event.target.value)}
+              placeholder={t('login.namePlaceholder')}
+              autoFocus
+            />
+            <div className="avatar-grid" role="radiogroup" aria-label={t('login.chooseAvatar')}>
+              {PROFILE_AVATARS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  role="radio"
+                  aria-checked={option === avatar}
+                  className={`avatar-option ${option === avatar ? 'selected' : ''}`}
+                  onClick={() => setAvatar(option)}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+            <div className="profile-form-actions">
+              <button type="submit" className="kids-button-persian accessible-button" disabled={!name.trim()}>
+                {t('login.create')}
+              </button>
+              {profiles.length > 0 && (
+                <button type="button" className="kids-button-persian accessible-button" onClick={() => setIsCreating(false)}>
+                  {t('login.cancel')}
+                </button>
+              )}
+            </div>
+          </form>
+        )}
+
+        {activeProfile && !isCreating && (
+          <>
+            {/* ادامه بازی ذخیره‌شده */}
+            {onContinueGame && (
+              <button className="kids-button-persian accessible-button start-button continue-button" onClick={onContinueGame}>
+                {t('login.continue')}
+              </button>
+            )}
+
+            {/* دکمه شروع بازی */}
+            <button className="kids-button-persian accessible-button start-button" onClick={() => onStartGame('story')}>
+              {t('login.start')}
+            </button>
+
+            {/* چالش‌ها برای بچه‌هایی که دور اصلی را زود تمام می‌کنند */}
+            <p className="font-kids-body profile-picker-title mode-picker-title">{t('login.otherModes')}</p>
+            <div className="mode-picker">
+              {(['timed', 'endless'] as const).map(mode => (
+                <button
+                  key={mode}
+                  className="kids-button-persian accessible-button mode-button"
+                  onClick={() => onStartGame(mode)}
+                >
+                  <span className="font-kids-body">{t(`mode.${mode}`)}</span>
+                  {!!highScores[mode] && (
+                    <span className="mode-high-score font-kids-body">{t('login.highScore', { score: highScores[mode] ?? 0 })}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        {/* تنظیمات و گزارش برای معلم */}
+        <button className="settings-link font-kids-body" onClick={onOpenSettings}>
+          {t('login.teacherSettings')}
         </button>
       </div>
     </div>
   );
 };
 
-export default LoginPage;
\ No newline at end of file
+export default LoginPage;
@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { playClickSound } from '../utils/SoundManager';
+import { cancelVoice, speakLine } from '../utils/VoiceManager';
+import { GuideLine } from '../game/dialogue';
+import { useI18n } from '../i18n';
+import './NPCGuide.css';
+
+interface NPCGuideProps {
+  // هر بار که lineKey عوض شود، گفت‌وگو از اولین خط lines دوباره شروع می‌شود
+  lines: GuideLine[];
+  lineKey: number;
+  visible: boolean;
+  onToggle: () => void;
+}
+
+// شخصیت راهنما (خاله شیرین) که خط‌های متن راهنما را یکی‌یکی نشان می‌دهد و می‌خواند
+const NPCGuide: React.FC<NPCGuideProps> = ({ lines, lineKey, visible, onToggle }) => {
+  const { t } = useI18n();
+  const [position, setPosition] = useState({ key: lineKey, index: 0 });
+  const index = position.key === lineKey ? position.index : 0;
+  const line = lines[index];
+  const hasNext = index < lines.length - 1;
+
+  useEffect(() => {
+    if (visible && line) {
+      speakLine(line);
+    }
+  }, [line, lineKey, index, visible]);
+
+  // بستن راهنما حرف نیمه‌کاره‌اش را هم قطع می‌کند
+  const close = () => {
+    cancelVoice();
+    onToggle();
+  };
+
+  const showNext = () => {
+    playClickSound();
+    setPosition({ key: lineKey, index: index + 1 });
+  };
+
+  if (!visible) {
+    return (
+      <button className="npc-guide-reopen accessible-button" onClick={onToggle} aria-label={t('npc.show')}>
+        👩‍🍳
+      </button>
+    );
+  }
+
+  return (
+    <div className="npc-guide" role="status" aria-live="polite">
+      <div className="npc-guide-avatar" aria-hidden="true">👩‍🍳</div>
+      {line && (
+        <div className="npc-guide-bubble font-kids-body">
+          <p className="npc-guide-line">{line.text}</p>
+          <div className="npc-guide-actions">
+            {hasNext && (
+              <button className="npc-guide-next" onClick={showNext}>
+                {t('npc.next')}
+              </button>
+            )}
+            <button className="npc-guide-close" onClick={close} aria-label={t('npc.close')}>
+              ✖
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NPCGuide;
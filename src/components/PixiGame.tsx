@@ -1,407 +1,621 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as PIXI from 'pixi.js';
+import { LevelDefinition, WRAPPING_COLORS, WrappingColor } from '../game/levels';
+import { BoxItem, ChocolateItem, EngineEvent, LEFTOVER_TRAY, findChocolateLocation } from '../game/engine';
+import { BoardAction, BoardModel } from '../game/board';
+import { useI18n } from '../i18n';
+import { playClickSound } from '../utils/SoundManager';
+import { SceneManager } from '../pixi/SceneManager';
+import { BOX_FRAME_SIZE, CHOCOLATE_FRAME_SIZE, createTextureAtlas } from '../pixi/textureAtlas';
+import { ParticleSystem } from '../pixi/ParticleSystem';
 import './PixiGame.css';
 import './IranianTheme.css';
 
 interface PixiGameProps {
-  onComplete: () => void;
-  level: number;
+  level: LevelDefinition;
+  levelNumber: number;
+  // صحنه همان مدل صفحه و همان حرکت‌های صفحه معمولی را به کار می‌برد
+  board: BoardModel;
+  onAction: (action: BoardAction) => EngineEvent[];
+  message: string;
 }
 
-const PixiGame: React.FC<PixiGameProps> = ({ onComplete, level }) => {
+interface Area {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface BoxSprite {
+  view: PIXI.Container;
+  base: PIXI.Sprite;
+  fill: PIXI.Sprite;
+  // جاهای خالی جعبه‌های با ظرفیت ثابت، در مختصات خود قاب جعبه
+  slots: PIXI.Graphics;
+  ribbon: PIXI.Sprite;
+  label: PIXI.Text;
+  // دکمه برداشتن جعبه؛ بیرون از قاب است تا با کوچک شدن جعبه ریز نشود
+  remove: PIXI.Container;
+  size: number;
+  color: WrappingColor | null;
+}
+
+// همان رنگ‌های دکمه‌های کادو در صفحه معمولی
+const WRAPPING_TINTS: Record<WrappingColor, number> = {
+  brown: 0x8B4513,
+  orange: 0xFF8C00,
+  red: 0xDC143C
+};
+
+const WAREHOUSE_AREA: Area = { x: 20, y: 130, width: 370, height: 320 };
+const LEFTOVER_AREA: Area = { x: 20, y: 460, width: 370, height: 80 };
+const BOXES_AREA: Area = { x: 410, y: 130, width: 370, height: 405 };
+// اندازه طراحی صحنه؛ بوم واقعی به اندازه ظرفش است و صحنه در آن جا می‌شود
+const STAGE_WIDTH = 800;
+const STAGE_HEIGHT = 600;
+const MAX_BOX_SIZE = 120;
+
+// تقسیم یک ناحیه به خانه‌های مربعی هم‌اندازه برای count شیء؛ مرکز هر خانه برگردانده می‌شود
+const gridCells = (area: Area, count: number, minColumns: number, topPadding: number = 0) => {
+  const height = area.height - topPadding;
+  const columns = Math.max(minColumns, Math.ceil(Math.sqrt(count * area.width / height)));
+  const rows = Math.max(1, Math.ceil(count / columns));
+  const size = Math.min(area.width / columns, height / rows);
+  return Array.from({ length: count }, (_, index) => ({
+    x: area.x + (index % columns + 0.5) * (area.width / columns),
+    y: area.y + topPadding + (Math.floor(index / columns) + 0.5) * (height / rows),
+    size
+  }));
+};
+
+const PixiGame: React.FC<PixiGameProps> = ({ level, levelNumber, board, onAction, message }) => {
   const canvasRef = useRef<HTMLDivElement>(null);
-  const appRef = useRef<PIXI.Application | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [retryCount, setRetryCount] = useState(0);
+  const [attempt, setAttempt] = useState(0);
   const maxRetries = 3;
+  const { t, formatNumber } = useI18n();
+  // صحنه با هر حرکت از نو ساخته نمی‌شود؛ آخرین وضعیت و callbackها از ref خوانده می‌شوند
+  const boardRef = useRef(board);
+  boardRef.current = board;
+  const messageRef = useRef(message);
+  messageRef.current = message;
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
+  const renderRef = useRef<(() => void) | null>(null);
 
   useEffect(() => {
-    let mounted = true;
-
-    const initPixi = async () => {
-      try {
-        // Clean up any existing app
-        if (appRef.current) {
-          try {
-            appRef.current.destroy(true);
-          } catch (e) {
-            console.warn('Error destroying previous app:', e);
-          }
-          appRef.current = null;
-        }
-
-        if (!mounted || !canvasRef.current) {
-          return;
-        }
-
-        // Create new PIXI Application with Iranian colors
-        const app = new PIXI.Application();
-        
-        // Initialize the application
-        await app.init({
-          width: 800,
-          height: 600,
-          backgroundColor: 0x40E0D0, // gulf-turquoise
-          antialias: true,
-        });
+    renderRef.current?.();
+  }, [board, message]);
 
-        if (!mounted || !canvasRef.current) {
-          app.destroy(true);
-          return;
-        }
-
-        // Store app reference
-        appRef.current = app;
-
-        // Add canvas to DOM - use the new canvas property
-        const canvas = app.canvas;
-        if (canvas && canvasRef.current) {
-          // Clear any existing content
-          canvasRef.current.innerHTML = '';
-          canvasRef.current.appendChild(canvas);
-        } else {
-          throw new Error('Failed to get canvas element');
-        }
-
-        // Create game content
-        setupGame(app);
-        
-        if (mounted) {
-          setIsLoading(false);
-          setError(null);
-        }
+  useEffect(() => {
+    const container = canvasRef.current;
+    if (!container) return;
+    const scene = new SceneManager(container, { width: STAGE_WIDTH, height: STAGE_HEIGHT, background: 0x40E0D0 }); // gulf-turquoise
+    let retryTimer: number | null = null;
 
-      } catch (err) {
-        console.error('PIXI initialization error:', err);
-        
-        // Clean up on error
-        if (appRef.current) {
-          try {
-            appRef.current.destroy(true);
-          } catch (e) {
-            console.warn('Error destroying app after init failure:', e);
-          }
-          appRef.current = null;
-        }
-        
-        if (mounted) {
-          if (retryCount < maxRetries) {
-            console.log(`Retrying PIXI initialization (${retryCount + 1}/${maxRetries})`);
-            setRetryCount(prev => prev + 1);
-            setTimeout(() => {
-              if (mounted) {
-                setError(null);
-                setIsLoading(true);
-                initPixi();
-              }
-            }, 1000);
-          } else {
-            setError('خطا در بارگذاری بازی. لطفاً صفحه را تازه کنید.');
-            setIsLoading(false);
-          }
-        }
+    scene.init().then(ready => {
+      if (!ready || scene.isDestroyed) return;
+      setupGame(scene);
+      setIsLoading(false);
+      setError(null);
+    }).catch(err => {
+      if (scene.isDestroyed) return;
+      console.error('PIXI initialization error:', err);
+      scene.destroy();
+      if (attempt < maxRetries) {
+        retryTimer = window.setTimeout(() => setAttempt(prev => prev + 1), 1000);
+      } else {
+        setError(t('pixi.loadError'));
+        setIsLoading(false);
       }
-    };
+    });
+
+    const setupGame = (scene: SceneManager) => {
+      const { app, world } = scene;
+      const width = STAGE_WIDTH;
 
-    const setupGame = (app: PIXI.Application) => {
       // Persian pattern background
       const bg = new PIXI.Graphics();
-      bg.beginFill(0x239F40, 0.2); // iran-green with transparency
       for (let i = 0; i < 16; i++) {
         for (let j = 0; j < 12; j++) {
           if ((i + j) % 3 === 0) {
             // Persian star pattern
-            bg.drawStar(i * 50 + 25, j * 50 + 25, 8, 8, 4);
+            bg.star(i * 50 + 25, j * 50 + 25, 8, 8, 4);
           } else if ((i + j) % 2 === 0) {
-            bg.drawCircle(i * 50 + 25, j * 50 + 25, 6);
+            bg.circle(i * 50 + 25, j * 50 + 25, 6);
           }
         }
       }
-      bg.endFill();
-      app.stage.addChild(bg);
+      bg.fill({ color: 0x239F40, alpha: 0.2 }); // iran-green with transparency
+      world.addChild(bg);
 
       // Title with Iranian styling
-      const title = new PIXI.Text('بازی بسته‌بندی شکلات 🍫', {
-        fontFamily: 'Vazirmatn, Arial',
-        fontSize: 36,
-        fill: 0xFFD700, // persian-gold
-        fontWeight: 'bold',
-        stroke: {
-          color: 0x1C39BB, // persian-blue
-          width: 2,
-        },
-        dropShadow: {
-          color: 0x000000,
-          blur: 4,
-          distance: 2,
-          alpha: 0.5,
-          angle: Math.PI / 4,
+      const title = new PIXI.Text({
+        text: t('app.title'),
+        style: {
+          fontFamily: 'Vazirmatn, Arial',
+          fontSize: 30,
+          fill: 0xFFD700, // persian-gold
+          fontWeight: 'bold',
+          stroke: {
+            color: 0x1C39BB, // persian-blue
+            width: 2,
+          },
+          dropShadow: {
+            color: 0x000000,
+            blur: 4,
+            distance: 2,
+            alpha: 0.5,
+            angle: Math.PI / 4,
+          },
         },
       });
       title.anchor.set(0.5);
-      title.position.set(app.screen.width / 2, 50);
-      app.stage.addChild(title);
+      title.position.set(width / 2, 30);
+      world.addChild(title);
 
       // Level text with Iranian styling
-      const levelText = new PIXI.Text(`مرحله ${level}`, {
-        fontFamily: 'Vazirmatn, Arial',
-        fontSize: 24,
-        fill: 0xFFFFFF,
-        fontWeight: 'bold',
-        stroke: {
-          color: 0x1C39BB, // persian-blue
-          width: 1,
+      const levelText = new PIXI.Text({
+        text: t('pixi.level', { level: levelNumber }),
+        style: {
+          fontFamily: 'Vazirmatn, Arial',
+          fontSize: 20,
+          fill: 0xFFFFFF,
+          fontWeight: 'bold',
+          stroke: {
+            color: 0x1C39BB, // persian-blue
+            width: 1,
+          },
         },
       });
       levelText.anchor.set(0.5);
-      levelText.position.set(app.screen.width / 2, 90);
-      app.stage.addChild(levelText);
-
-      // Create chocolates with Iranian colors
-      const chocolates: PIXI.Graphics[] = [];
-      const iranianColors = [0x239F40, 0xDA0000, 0xFFD700]; // iran-green, iran-red, persian-gold
-      
-      for (let i = 0; i < 9; i++) {
-        const chocolate = new PIXI.Graphics();
-        chocolate.beginFill(iranianColors[i % 3]);
-        chocolate.drawRoundedRect(0, 0, 40, 40, 8);
-        chocolate.endFill();
-        
-        // Add Persian border
-        chocolate.lineStyle(2, 0x1C39BB, 1); // persian-blue border
-        chocolate.drawRoundedRect(0, 0, 40, 40, 8);
-        
-        // Add highlight with Iranian touch
-        chocolate.beginFill(0xFFFFFF, 0.4);
-        chocolate.drawRoundedRect(5, 5, 15, 15, 4);
-        chocolate.endFill();
-        
-        const x = 100 + (i % 3) * 100;
-        const y = 150 + Math.floor(i / 3) * 80;
-        chocolate.position.set(x, y);
-        chocolate.interactive = true;
+      levelText.position.set(width / 2, 64);
+      world.addChild(levelText);
+
+      // پیام بازی (راهنمایی‌ها و نتیجه تقسیم) همان پیام صفحه معمولی است
+      const messageText = new PIXI.Text({
+        text: '',
+        style: {
+          fontFamily: 'Vazirmatn, Arial',
+          fontSize: 16,
+          fill: 0xFFFFFF,
+          fontWeight: 'bold',
+          align: 'center',
+          wordWrap: true,
+          wordWrapWidth: width - 40,
+          stroke: {
+            color: 0x1C39BB, // persian-blue
+            width: 2,
+          },
+        },
+      });
+      messageText.anchor.set(0.5, 0);
+      messageText.position.set(width / 2, 84);
+      world.addChild(messageText);
+
+      const drawPanel = (area: Area, label: string): PIXI.Text => {
+        const panel = new PIXI.Graphics()
+          .roundRect(area.x, area.y, area.width, area.height, 16)
+          .fill({ color: 0xFFFFFF, alpha: 0.18 })
+          .stroke({ width: 2, color: 0xFFD700, alpha: 0.8 }); // persian-gold border
+        world.addChild(panel);
+
+        const text = new PIXI.Text({
+          text: label,
+          style: {
+            fontFamily: 'Vazirmatn, Arial',
+            fontSize: 14,
+            fill: 0xFFFFFF,
+            fontWeight: 'bold',
+          },
+        });
+        text.anchor.set(0.5, 0);
+        text.position.set(area.x + area.width / 2, area.y + 4);
+        world.addChild(text);
+        return text;
+      };
+
+      // در رنگ‌آمیزی انبار خالی است و جای رنگ‌های کادو می‌شود
+      const warehouseTitle = drawPanel(WAREHOUSE_AREA, t('warehouse.title'));
+      if (level.allowRemainder) {
+        drawPanel(LEFTOVER_AREA, t('leftover.title'));
+      }
+
+      // جعبه‌ها زیر شکلات‌ها، روبان کادو روی شکلات‌ها و شکلات کشیده‌شده روی همه چیز
+      const boxLayer = new PIXI.Container();
+      const chocolateLayer = new PIXI.Container();
+      const ribbonLayer = new PIXI.Container();
+      const effectLayer = new PIXI.Container();
+      const dragLayer = new PIXI.Container();
+      world.addChild(boxLayer, chocolateLayer, ribbonLayer, effectLayer, dragLayer);
+
+      const atlas = scene.own(createTextureAtlas(app.renderer));
+      const particles = new ParticleSystem(scene, atlas, effectLayer);
+
+      // Chocolate and box sprites are kept in sync with the shared board model
+      const chocolates = new Map<string, PIXI.Sprite>();
+      const boxes = new Map<string, BoxSprite>();
+      let draggedChocolate: PIXI.Sprite | null = null;
+      let draggedId: string | null = null;
+      let lastPhase = boardRef.current.phase;
+      let selectedColor: WrappingColor | null = null;
+
+      const createChocolate = (item: ChocolateItem) => {
+        const chocolate = new PIXI.Sprite(atlas.get(`chocolate-${item.type}`));
+        chocolate.anchor.set(0.5);
+        chocolate.eventMode = 'static';
         chocolate.cursor = 'pointer';
-        
-        // Hover effect
-        chocolate.on('pointerover', () => {
+        scene.listen(chocolate, 'pointerdown', () => {
+          if (boardRef.current.phase !== 'packing') return;
+          draggedChocolate = chocolate;
+          draggedId = item.id;
+          chocolate.alpha = 0.7;
           chocolate.scale.set(1.1);
+          dragLayer.addChild(chocolate);
         });
-        
-        chocolate.on('pointerout', () => {
-          chocolate.scale.set(1);
+
+        chocolates.set(item.id, chocolate);
+        chocolateLayer.addChild(chocolate);
+        return chocolate;
+      };
+
+      const createBox = (item: BoxItem): BoxSprite => {
+        const view = new PIXI.Container();
+        view.eventMode = 'static';
+        // در رنگ‌آمیزی، لمس جعبه کادوی رنگ انتخاب‌شده را رویش می‌گذارد
+        scene.listen(view, 'pointerdown', () => {
+          if (boardRef.current.phase !== 'coloring' || !selectedColor) return;
+          onActionRef.current({ type: 'COLOR_BOX', boxId: item.id, color: selectedColor });
         });
-        
-        // Floating animation
-        const originalY = y;
-        app.ticker.add(() => {
-          if (chocolate.parent) {
-            chocolate.y = originalY + Math.sin(Date.now() * 0.002 + x * 0.01) * 5;
-          }
+        const base = new PIXI.Sprite(atlas.get('box'));
+        const fill = new PIXI.Sprite(atlas.get('box-fill'));
+        // کاغذ از کف جعبه بالا می‌آید
+        fill.anchor.set(0, 1);
+        fill.position.set(6, BOX_FRAME_SIZE - 6);
+        fill.tint = 0xFFD700; // persian-gold
+        const slots = new PIXI.Graphics();
+        view.addChild(base, fill, slots);
+
+        const ribbon = new PIXI.Sprite(atlas.get('ribbon'));
+        ribbon.visible = false;
+        ribbonLayer.addChild(ribbon);
+
+        const label = new PIXI.Text({
+          text: '',
+          style: {
+            fontFamily: 'Vazirmatn, Arial',
+            fontSize: 16,
+            fill: 0xFFFFFF,
+            fontWeight: 'bold',
+            stroke: {
+              color: 0x1C39BB, // persian-blue
+              width: 2,
+            },
+          },
         });
-        
-        chocolates.push(chocolate);
-        app.stage.addChild(chocolate);
-      }
+        label.anchor.set(0.5, 0);
 
-      // Create boxes with Iranian design
-      const boxes: PIXI.Graphics[] = [];
-      for (let i = 0; i < 3; i++) {
-        const box = new PIXI.Graphics();
-        box.beginFill(0x40E0D0); // gulf-turquoise
-        box.drawRoundedRect(0, 0, 100, 100, 10);
-        box.endFill();
-        
-        // Persian border
-        box.lineStyle(3, 0xFFD700, 1); // persian-gold border
-        box.drawRoundedRect(0, 0, 100, 100, 10);
-        
-        // 3D effect with Iranian colors
-        box.beginFill(0x1C39BB, 0.6); // persian-blue shadow
-        box.drawPolygon([0, 100, 10, 110, 110, 110, 100, 100]);
-        box.endFill();
-        
-        box.beginFill(0x239F40, 0.6); // iran-green shadow
-        box.drawPolygon([100, 0, 110, 10, 110, 110, 100, 100]);
-        box.endFill();
-        
-        const x = 500;
-        const y = 150 + i * 120;
-        box.position.set(x, y);
-        box.interactive = true;
-        box.cursor = 'pointer';
-        
-        // Hover effect
-        box.on('pointerover', () => {
-          box.scale.set(1.05);
+        const remove = new PIXI.Container();
+        remove.eventMode = 'static';
+        remove.cursor = 'pointer';
+        const removeBadge = new PIXI.Graphics()
+          .circle(0, 0, 13)
+          .fill(0xDC143C)
+          .stroke({ width: 2, color: 0xFFFFFF });
+        const removeMark = new PIXI.Text({
+          text: '✖',
+          style: { fontFamily: 'Vazirmatn, Arial', fontSize: 14, fill: 0xFFFFFF, fontWeight: 'bold' },
         });
-        
-        box.on('pointerout', () => {
-          box.scale.set(1);
+        removeMark.anchor.set(0.5);
+        remove.addChild(removeBadge, removeMark);
+        scene.listen(remove, 'pointerdown', () => {
+          if (boardRef.current.phase !== 'packing' || !boardRef.current.canRemoveBox) return;
+          onActionRef.current({ type: 'REMOVE_BOX', boxId: item.id });
         });
-        
-        boxes.push(box);
-        app.stage.addChild(box);
-      }
 
-      // Drag and drop logic
-      let draggedChocolate: PIXI.Graphics | null = null;
-      let originalPosition: { x: number; y: number } | null = null;
+        boxLayer.addChild(view, label);
+        ribbonLayer.addChild(remove);
+        const entry = { view, base, fill, slots, ribbon, label, remove, size: 0, color: item.color };
+        boxes.set(item.id, entry);
+        return entry;
+      };
 
-      chocolates.forEach(chocolate => {
-        chocolate.on('pointerdown', () => {
-          draggedChocolate = chocolate;
-          originalPosition = { x: chocolate.x, y: chocolate.y };
-          chocolate.alpha = 0.7;
+      const destroyBox = (entry: BoxSprite) => {
+        entry.view.destroy({ children: true });
+        entry.ribbon.destroy();
+        entry.label.destroy();
+        entry.remove.destroy({ children: true });
+      };
+
+      const boxCenter = (entry: BoxSprite) => ({
+        x: entry.view.x + entry.size / 2,
+        y: entry.view.y + entry.size / 2
+      });
+
+      const placeChocolate = (id: string, x: number, y: number, scale: number) => {
+        const chocolate = chocolates.get(id);
+        if (!chocolate || chocolate === draggedChocolate) return;
+        chocolate.position.set(x, y);
+        chocolate.scale.set(scale);
+        chocolate.alpha = 1;
+      };
+
+      // رنگ‌های کادو؛ مثل صفحه معمولی اول رنگ انتخاب می‌شود و بعد جعبه
+      const palette = new PIXI.Container();
+      const paletteRing = new PIXI.Graphics().circle(0, 0, 40).stroke({ width: 5, color: 0xFFD700 }); // persian-gold
+      paletteRing.visible = false;
+      palette.addChild(paletteRing);
+      const swatchCells = gridCells(WAREHOUSE_AREA, WRAPPING_COLORS.length, WRAPPING_COLORS.length, 24);
+      WRAPPING_COLORS.forEach((color, index) => {
+        const cell = swatchCells[index];
+        const swatch = new PIXI.Graphics()
+          .circle(0, 0, 32)
+          .fill(WRAPPING_TINTS[color])
+          .stroke({ width: 3, color: 0xFFFFFF });
+        swatch.position.set(cell.x, cell.y);
+        swatch.eventMode = 'static';
+        swatch.cursor = 'pointer';
+        scene.listen(swatch, 'pointerdown', () => {
+          playClickSound();
+          selectedColor = color;
+          paletteRing.position.copyFrom(swatch.position);
+          paletteRing.visible = true;
         });
+        palette.addChild(swatch);
       });
+      world.addChild(palette);
+
+      // چیدن صحنه بر اساس مدل صفحه: شکلات‌ها در انبار، جعبه‌ها یا سینی باقی‌مانده
+      const render = () => {
+        const board = boardRef.current;
+        const packing = board.phase === 'packing';
+
+        // همگام‌سازی جعبه‌ها: جعبه تازه ساخته و جعبه حذف‌شده پاک می‌شود
+        boxes.forEach((entry, boxId) => {
+          if (!board.boxes.some(box => box.id === boxId)) {
+            destroyBox(entry);
+            boxes.delete(boxId);
+          }
+        });
+        const boxCells = gridCells(BOXES_AREA, board.boxes.length, 1);
+        board.boxes.forEach(item => {
+          const entry = boxes.get(item.id) ?? createBox(item);
+          const cell = boxCells[item.index];
+          const size = Math.min(MAX_BOX_SIZE, cell.size - 24);
+          const scale = size / BOX_FRAME_SIZE;
+          entry.size = size;
+          entry.view.scale.set(scale);
+          entry.view.position.set(cell.x - size / 2, cell.y - size / 2 - 8);
+          entry.view.cursor = board.phase === 'coloring' ? 'pointer' : 'default';
+          entry.ribbon.scale.set(scale);
+          entry.ribbon.position.copyFrom(entry.view.position);
+          // کاغذ کف جعبه به نسبت سهم مساوی هر جعبه بالا می‌آید
+          entry.fill.scale.y = board.fairShare > 0 ? Math.min(1, item.chocolates.length / board.fairShare) : 0;
+          // جعبه‌ای که طعم، رنگ یا تعدادش اشتباه است مثل صفحه معمولی علامت می‌خورد
+          const wrong = !!item.mismatch || (!!item.diagnosis && item.diagnosis.status !== 'ok');
+          entry.base.tint = wrong ? 0xFF9999 : 0xFFFFFF;
+          entry.label.text = board.boxCapacity
+            ? `${formatNumber(item.chocolates.length)}/${formatNumber(board.boxCapacity)}`
+            : formatNumber(item.chocolates.length);
+          entry.slots.clear();
+          if (board.boxCapacity && packing) {
+            const frameInner = { x: 4, y: 4, width: BOX_FRAME_SIZE - 8, height: BOX_FRAME_SIZE - 8 };
+            gridCells(frameInner, board.boxCapacity, 1).slice(item.chocolates.length).forEach(cell => {
+              entry.slots.circle(cell.x, cell.y, Math.min(16, cell.size / 2 - 4));
+            });
+            entry.slots.fill({ color: 0xFFFFFF, alpha: 0.35 }).stroke({ width: 2, color: 0x8B4513, alpha: 0.5 });
+          }
+          entry.label.position.set(cell.x, entry.view.y + size + 10);
+          entry.remove.visible = packing && board.canRemoveBox;
+          entry.remove.position.set(entry.view.x + size - 4, entry.view.y + 4);
+
+          entry.ribbon.visible = item.color !== null;
+          if (item.color) entry.ribbon.tint = WRAPPING_TINTS[item.color];
+          if (item.color && item.color !== entry.color) {
+            const center = boxCenter(entry);
+            particles.burst('wrapping', center.x, center.y, { tints: [WRAPPING_TINTS[item.color], 0xFFFFFF] });
+          }
+          entry.color = item.color;
+        });
+
+        // همگام‌سازی شکلات‌ها با شناسه‌های مرحله فعلی
+        const all = [...board.warehouse, ...board.boxes.flatMap(box => box.chocolates), ...board.leftover];
+        chocolates.forEach((chocolate, id) => {
+          if (!all.some(item => item.id === id)) {
+            chocolate.destroy();
+            chocolates.delete(id);
+          }
+        });
+        all.forEach(item => {
+          const chocolate = chocolates.get(item.id) ?? createChocolate(item);
+          // بعد از بسته‌بندی لمس شکلات باید به جعبه زیرش برسد
+          chocolate.eventMode = packing ? 'static' : 'none';
+        });
+
+        const warehouseCells = gridCells(WAREHOUSE_AREA, Math.max(board.warehouse.length, 1), 1, 24);
+        board.warehouse.forEach((item, index) => {
+          const cell = warehouseCells[index];
+          placeChocolate(item.id, cell.x, cell.y, Math.min(1, (cell.size - 8) / CHOCOLATE_FRAME_SIZE));
+        });
+
+        board.boxes.forEach(box => {
+          const entry = boxes.get(box.id);
+          if (!entry) return;
+          const inner = { x: entry.view.x + 4, y: entry.view.y + 4, width: entry.size - 8, height: entry.size - 8 };
+          // با ظرفیت ثابت هر شکلات در یکی از جاهای خالی می‌نشیند
+          const cells = gridCells(inner, board.boxCapacity ?? box.chocolates.length, 1);
+          box.chocolates.forEach((item, index) => {
+            const cell = cells[index];
+            placeChocolate(item.id, cell.x, cell.y, Math.min(0.6, (cell.size - 2) / CHOCOLATE_FRAME_SIZE));
+          });
+        });
+
+        const leftoverCells = gridCells(LEFTOVER_AREA, board.leftover.length, 1, 24);
+        board.leftover.forEach((item, index) => {
+          const cell = leftoverCells[index];
+          placeChocolate(item.id, cell.x, cell.y, Math.min(0.6, (cell.size - 4) / CHOCOLATE_FRAME_SIZE));
+        });
+
+        // تقسیم درست: همه جعبه‌ها با هم جشن می‌گیرند
+        if (lastPhase === 'packing' && !packing) {
+          boxes.forEach(entry => {
+            const center = boxCenter(entry);
+            particles.burst('confetti', center.x, entry.view.y);
+            particles.burst('sparkle', center.x, center.y);
+          });
+        }
+        lastPhase = board.phase;
+
+        palette.visible = board.phase === 'coloring';
+        if (!palette.visible) {
+          selectedColor = null;
+          paletteRing.visible = false;
+        }
+        warehouseTitle.text = t(board.phase === 'coloring' ? 'coloring.title' : 'warehouse.title');
+        addBoxButton.visible = packing && board.canAddBox;
+        clearBoxesButton.visible = packing && board.canClearBoxes;
+        messageText.text = messageRef.current;
+      };
+
+      const contains = (area: Area, x: number, y: number) =>
+        x >= area.x && x <= area.x + area.width && y >= area.y && y <= area.y + area.height;
+
+      // جای رها شدن شکلات به یک حرکت موتور تبدیل می‌شود؛ قانون تقسیم مساوی را موتور بررسی می‌کند
+      const actionForDrop = (chocolateId: string, x: number, y: number): BoardAction | null => {
+        const board = boardRef.current;
+        const location = findChocolateLocation(board, chocolateId);
+        let target: string | null = null;
+        boxes.forEach((entry, boxId) => {
+          const area = { x: entry.view.x, y: entry.view.y, width: entry.size, height: entry.size };
+          if (contains(area, x, y)) target = boxId;
+        });
+        if (target) {
+          return target === location ? null : { type: 'DROP_CHOCOLATE', boxId: target, chocolateId };
+        }
+        if (board.hasLeftoverTray && contains(LEFTOVER_AREA, x, y)) {
+          return location === LEFTOVER_TRAY ? null : { type: 'DROP_LEFTOVER', chocolateId };
+        }
+        if (contains(WAREHOUSE_AREA, x, y) && location) {
+          return { type: 'RETURN_CHOCOLATE', chocolateId };
+        }
+        return null;
+      };
+
+      const showCheer = (boxId: string) => {
+        const entry = boxes.get(boxId);
+        if (!entry) return;
+        const center = boxCenter(entry);
+        particles.burst('sparkle', center.x, center.y, { count: 8 });
+      };
 
-      app.stage.on('pointermove', (event: any) => {
+      scene.listen(app.stage, 'pointermove', (event: PIXI.FederatedPointerEvent) => {
         if (draggedChocolate) {
-          const newPosition = event.data.getLocalPosition(app.stage);
+          const newPosition = scene.toWorld(event.global);
           draggedChocolate.position.set(newPosition.x, newPosition.y);
         }
       });
 
-      app.stage.on('pointerup', () => {
-        if (draggedChocolate && originalPosition) {
-          let droppedOnBox = false;
-          
-          boxes.forEach(box => {
-            const distance = Math.sqrt(
-              Math.pow(draggedChocolate!.x - box.x, 2) + 
-              Math.pow(draggedChocolate!.y - box.y, 2)
-            );
-            
-            if (distance < 60) {
-              droppedOnBox = true;
-              draggedChocolate!.position.set(box.x + 25, box.y + 25);
-              draggedChocolate!.scale.set(0.6);
-              
-              // Success effect with Iranian styling
-              const successText = new PIXI.Text('✨ عالی! ✨', {
-                fontFamily: 'Vazirmatn, Arial',
-                fontSize: 28,
-                fill: 0xFFD700, // persian-gold
-                fontWeight: 'bold',
-                stroke: {
-                  color: 0x1C39BB, // persian-blue
-                  width: 2,
-                },
-                dropShadow: {
-                  color: 0x000000,
-                  blur: 4,
-                  distance: 2,
-                  alpha: 0.5,
-                  angle: Math.PI / 4,
-                },
-              });
-              successText.anchor.set(0.5);
-              successText.position.set(box.x + 50, box.y - 30);
-              app.stage.addChild(successText);
-              
-              setTimeout(() => {
-                if (successText.parent) {
-                  app.stage.removeChild(successText);
-                }
-              }, 1500);
-            }
-          });
-          
-          if (!droppedOnBox && originalPosition) {
-            draggedChocolate.position.set(originalPosition.x, originalPosition.y);
-          }
-          
-          draggedChocolate.alpha = 1;
-          draggedChocolate = null;
-          originalPosition = null;
+      const endDrag = () => {
+        if (!draggedChocolate || !draggedId) return;
+        const chocolate = draggedChocolate;
+        const action = actionForDrop(draggedId, chocolate.x, chocolate.y);
+        draggedChocolate = null;
+        draggedId = null;
+        chocolateLayer.addChild(chocolate);
+        if (action) {
+          const events = onActionRef.current(action);
+          const dropped = events.find(event => event.type === 'chocolate-dropped');
+          if (dropped && dropped.type === 'chocolate-dropped') showCheer(dropped.boxId);
         }
-      });
+        // اگر حرکت انجام نشد، شکلات به جای قبلی‌اش برمی‌گردد
+        render();
+      };
 
-      // Complete button with Iranian design
-      const completeButton = new PIXI.Graphics();
-      completeButton.beginFill(0x239F40); // iran-green
-      completeButton.drawRoundedRect(0, 0, 120, 40, 20);
-      completeButton.endFill();
-      
-      // Persian border
-      completeButton.lineStyle(2, 0xFFD700, 1); // persian-gold border
-      completeButton.drawRoundedRect(0, 0, 120, 40, 20);
-      
-      completeButton.position.set(app.screen.width - 140, app.screen.height - 60);
-      completeButton.interactive = true;
-      completeButton.cursor = 'pointer';
-      
-      const buttonText = new PIXI.Text('تموم شد!', {
-        fontFamily: 'Vazirmatn, Arial',
-        fontSize: 20,
-        fill: 0xFFFFFF,
-        fontWeight: 'bold',
-        stroke: {
-          color: 0x1C39BB, // persian-blue
-          width: 1,
-        },
-      });
-      buttonText.anchor.set(0.5);
-      buttonText.position.set(60, 20);
-      completeButton.addChild(buttonText);
-      
-      completeButton.on('pointerover', () => {
-        completeButton.tint = 0x1C39BB; // persian-blue on hover
-      });
-      
-      completeButton.on('pointerout', () => {
-        completeButton.tint = 0xFFFFFF;
+      scene.listen(app.stage, 'pointerup', endDrag);
+      scene.listen(app.stage, 'pointerupoutside', endDrag);
+
+      const createButton = (label: string, buttonWidth: number, color: number, x: number, y: number, onPress: () => void) => {
+        const button = new PIXI.Graphics()
+          .roundRect(0, 0, buttonWidth, 40, 20)
+          .fill(color)
+          // Persian border
+          .stroke({ width: 2, color: 0xFFD700 }); // persian-gold border
+        
+        button.position.set(x, y);
+        button.eventMode = 'static';
+        button.cursor = 'pointer';
+        
+        const buttonText = new PIXI.Text({
+          text: label,
+          style: {
+            fontFamily: 'Vazirmatn, Arial',
+            fontSize: 18,
+            fill: 0xFFFFFF,
+            fontWeight: 'bold',
+            stroke: {
+              color: 0x1C39BB, // persian-blue
+              width: 1,
+            },
+          },
+        });
+        buttonText.anchor.set(0.5);
+        buttonText.position.set(buttonWidth / 2, 20);
+        button.addChild(buttonText);
+        
+        scene.listen(button, 'pointerover', () => {
+          button.tint = 0x1C39BB; // persian-blue on hover
+        });
+        
+        scene.listen(button, 'pointerout', () => {
+          button.tint = 0xFFFFFF;
+        });
+        
+        scene.listen(button, 'pointerdown', onPress);
+        world.addChild(button);
+        return button;
+      };
+
+      const addBoxButton = createButton(t('boxes.add'), 160, 0x1C39BB, BOXES_AREA.x, 548, () => {
+        if (boardRef.current.canAddBox) onActionRef.current({ type: 'ADD_BOX' });
       });
-      
-      completeButton.on('pointerdown', () => {
-        onComplete();
+
+      // مثل صفحه معمولی همه جعبه‌ها برداشته می‌شوند و شکلات‌ها به انبار برمی‌گردند
+      const clearBoxesButton = createButton(t('boxes.clear'), 190, 0xDC143C, BOXES_AREA.x + BOXES_AREA.width - 190, 548, () => {
+        if (boardRef.current.canClearBoxes) onActionRef.current({ type: 'CLEAR_BOXES' });
       });
-      
-      app.stage.addChild(completeButton);
-    };
 
-    // Initialize PIXI
-    initPixi();
+      renderRef.current = render;
+      render();
+    };
 
-    // Cleanup function
     return () => {
-      mounted = false;
-      if (appRef.current) {
-        try {
-          appRef.current.destroy(true);
-        } catch (e) {
-          console.warn('Error destroying app on cleanup:', e);
-        }
-        appRef.current = null;
-      }
+      renderRef.current = null;
+      if (retryTimer !== null) window.clearTimeout(retryTimer);
+      scene.destroy();
     };
-  }, [level, onComplete]);
+  }, [level, levelNumber, t, formatNumber, attempt]);
 
+  // تغییر attempt صحنه را از نو می‌سازد
   const handleRetry = () => {
     setError(null);
     setIsLoading(true);
-    setRetryCount(0);
-    // Force re-initialization
-    setTimeout(() => {
-      if (canvasRef.current) {
-        canvasRef.current.innerHTML = '';
-      }
-    }, 100);
+    setAttempt(0);
   };
 
   if (error) {
     return (
       <div className="pixi-game-container bg-gradient-persian-gulf rtl-support">
         <div className="game-card-iranian persian-border text-center p-8">
-          <h3 className="font-kids-title text-2xl mb-4 text-white-enhanced">خطا در بارگذاری بازی</h3>
+          <h3 className="font-kids-title text-2xl mb-4 text-white-enhanced">{t('pixi.errorTitle')}</h3>
           <p className="font-kids-body text-lg mb-6 text-white-strong">{error}</p>
           <div className="flex gap-4 justify-center">
             <button className="kids-button-iran accessible-button" onClick={handleRetry}>
-              تلاش مجدد
+              {t('pixi.retry')}
             </button>
             <button className="kids-button-iran accessible-button" onClick={() => window.location.reload()}>
-              بارگذاری مجدد صفحه
+              {t('pixi.reload')}
             </button>
           </div>
         </div>
@@ -414,7 +628,7 @@ const PixiGame: React.FC<PixiGameProps> = ({ onComplete, level }) => {
       {isLoading && (
         <div className="game-card-iranian persian-border text-center p-8 fade-in-persian">
           <div className="loading-spinner-iranian mb-4"></div>
-          <p className="font-kids-body text-lg text-white-strong">در حال بارگذاری بازی...</p>
+          <p className="font-kids-body text-lg text-white-strong">{t('pixi.loading')}</p>
         </div>
       )}
       <div ref={canvasRef} className="pixi-canvas persian-border" />
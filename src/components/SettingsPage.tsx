@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import sessionLogger from '../utils/SessionLogger';
+import { useI18n } from '../i18n';
+import LanguageSwitch from './LanguageSwitch';
+import BoardViewSwitch from './BoardViewSwitch';
+import './SettingsPage.css';
+import './IranianTheme.css';
+
+interface SettingsPageProps {
+  onClose: () => void;
+}
+
+// صفحه تنظیمات معلم: خروجی گرفتن از گزارش رویدادهای بازی
+const SettingsPage: React.FC<SettingsPageProps> = ({ onClose }) => {
+  const { t } = useI18n();
+  const [events, setEvents] = useState(() => sessionLogger.getEvents());
+  const sessions = new Set(events.map(event => event.sessionId)).size;
+  const profiles = new Set(events.map(event => event.profileName).filter(Boolean)).size;
+
+  const handleClear = () => {
+    if (!window.confirm(t('settings.confirmClear'))) return;
+    sessionLogger.clear();
+    setEvents([]);
+  };
+
+  return (
+    <div className="settings-page bg-gradient-persian-gulf rtl-support">
+      <div className="settings-container game-card-iranian persian-border">
+        <h2 className="font-kids-title text-3xl mb-4 text-white-enhanced">{t('settings.title')}</h2>
+
+        <section className="settings-section">
+          <h3 className="font-kids-title text-xl mb-2 text-white-enhanced">{t('settings.reportTitle')}</h3>
+          <p className="font-kids-body text-white-strong">
+            {t('settings.summary', { events: events.length, sessions, profiles })}
+          </p>
+          <div className="settings-actions">
+            <button
+              className="kids-button-persian accessible-button"
+              onClick={() => sessionLogger.download('csv')}
+              disabled={events.length === 0}
+            >
+              {t('settings.exportCsv')}
+            </button>
+            <button
+              className="kids-button-persian accessible-button"
+              onClick={() => sessionLogger.download('json')}
+              disabled={events.length === 0}
+            >
+              {t('settings.exportJson')}
+            </button>
+            <button
+              className="kids-button-persian accessible-button settings-danger"
+              onClick={handleClear}
+              disabled={events.length === 0}
+            >
+              {t('settings.clear')}
+            </button>
+          </div>
+        </section>
+
+        <section className="settings-section">
+          <h3 className="font-kids-title text-xl mb-2 text-white-enhanced">{t('language.title')}</h3>
+          <LanguageSwitch />
+        </section>
+
+        <section className="settings-section">
+          <h3 className="font-kids-title text-xl mb-2 text-white-enhanced">{t('boardView.title')}</h3>
+          <p className="font-kids-body text-white-strong">{t('boardView.description')}</p>
+          <BoardViewSwitch />
+        </section>
+
+        <button className="kids-button-persian accessible-button settings-close" onClick={onClose}>
+          {t('settings.back')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,25 @@
+import React, { useSyncExternalStore } from 'react';
+import voiceManager from '../utils/VoiceManager';
+import './Subtitles.css';
+
+const subscribe = (listener: () => void) => voiceManager.subscribe(listener);
+const getSubtitle = () => voiceManager.getSubtitle();
+
+// زیرنویس خطی که گوینده همین حالا می‌خواند؛ بخش خوانده‌شده پررنگ می‌شود
+const Subtitles: React.FC = () => {
+  const subtitle = useSyncExternalStore(subscribe, getSubtitle);
+  if (!subtitle) return null;
+
+  const spoken = subtitle.text.slice(0, subtitle.spokenChars);
+  const rest = subtitle.text.slice(subtitle.spokenChars);
+
+  // متن همین خط در حباب راهنما برای صفحه‌خوان اعلام می‌شود
+  return (
+    <div className="subtitles font-kids-body" aria-hidden="true">
+      <span className="subtitles-spoken">{spoken}</span>
+      <span className="subtitles-rest">{rest}</span>
+    </div>
+  );
+};
+
+export default Subtitles;
@@ -0,0 +1,65 @@
+// View model of the packing board; the DOM and Pixi views both render it and emit the same board actions
+import {
+  BoxCountStatus,
+  BoxDiagnosis,
+  BoxItem,
+  ChocolateItem,
+  EngineAction,
+  EngineState,
+  GamePhase,
+  canAddBox,
+  canClearBoxes,
+  canRemoveBox,
+  diagnosePacking
+} from './engine';
+import { BoxMismatch } from './orders';
+
+// حرکت‌هایی که بچه روی صفحه انجام می‌دهد؛ شروع مرحله کار صفحه بازی است نه نما
+export type BoardAction = Exclude<EngineAction, { type: 'START_LEVEL' }>;
+
+export interface BoardBox extends BoxItem {
+  index: number;
+  // اشتباه طعم یا رنگ سفارش که باید روی جعبه علامت بخورد
+  mismatch?: BoxMismatch;
+  // وضعیت تعداد جعبه بعد از اولین تقسیم اشتباه
+  diagnosis?: BoxDiagnosis;
+}
+
+export interface BoardModel {
+  phase: GamePhase;
+  warehouse: ChocolateItem[];
+  boxes: BoardBox[];
+  leftover: ChocolateItem[];
+  hasLeftoverTray: boolean;
+  leftoverStatus?: BoxCountStatus;
+  canAddBox: boolean;
+  canRemoveBox: boolean;
+  canClearBoxes: boolean;
+  // سهم هر جعبه اگر همه شکلات‌ها مساوی تقسیم شوند؛ برای پر شدن جعبه‌ها در نما
+  fairShare: number;
+  // ظرفیت ثابت هر جعبه در مسئله وارونه؛ نما جاهای خالی را نشان می‌دهد
+  boxCapacity: number | null;
+}
+
+export const getBoardModel = (state: EngineState, mismatches: BoxMismatch[] = []): BoardModel => {
+  const diagnosis = state.phase === 'packing' && state.packingFailures > 0 ? diagnosePacking(state) : null;
+  return {
+    phase: state.phase,
+    warehouse: state.chocolates.filter(c => !c.placed),
+    boxes: state.boxes.map((box, index) => ({
+      ...box,
+      index,
+      mismatch: mismatches.find(m => m.boxId === box.id),
+      diagnosis: diagnosis?.boxes.find(d => d.boxId === box.id)
+    })),
+    leftover: state.leftover,
+    hasLeftoverTray: !!state.level.allowRemainder,
+    leftoverStatus: diagnosis?.leftover?.status,
+    canAddBox: canAddBox(state),
+    canRemoveBox: canRemoveBox(state),
+    canClearBoxes: canClearBoxes(state),
+    fairShare: state.level.boxCapacity
+      ?? (state.boxes.length > 0 ? Math.floor(state.chocolates.length / state.boxes.length) : 0),
+    boxCapacity: state.level.boxCapacity ?? null
+  };
+};
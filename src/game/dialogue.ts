@@ -0,0 +1,53 @@
+// Guide character script: what the NPC says at level start, when the child is idle and after repeated mistakes
+import { GamePhase, HINT_AFTER_FAILURES } from './engine';
+import { LevelDefinition } from './levels';
+
+// بعد از این مدت بی‌کاری، راهنما یک یادآوری می‌گوید
+export const IDLE_NUDGE_MS = 20000;
+
+// هر خط یک شناسه ثابت دارد تا صدای ضبط‌شده و اولویت پخشش از روی آن پیدا شود
+export interface GuideLine {
+  id: string;
+  text: string;
+}
+
+export interface GuideDialogue {
+  intro: GuideLine[];
+  idle: GuideLine[];
+  hints: GuideLine[];
+}
+
+export type LevelLineSection = keyof GuideDialogue | 'success';
+
+export const levelLineId = (levelId: string, section: LevelLineSection, index?: number): string =>
+  index === undefined ? `level.${levelId}.${section}` : `level.${levelId}.${section}.${index}`;
+
+const toLines = (level: LevelDefinition, section: keyof GuideDialogue, lines: string[]): GuideLine[] =>
+  lines.map((text, index) => ({ id: levelLineId(level.id, section, index), text }));
+
+// مراحلی که متن راهنما ندارند فقط پیام معرفی خودشان را می‌گویند
+export const getDialogue = (level: LevelDefinition): GuideDialogue => {
+  const dialogue = level.dialogue ?? { intro: [level.messages.intro], idle: [], hints: [] };
+  return {
+    intro: toLines(level, 'intro', dialogue.intro),
+    idle: toLines(level, 'idle', dialogue.idle),
+    hints: toLines(level, 'hints', dialogue.hints)
+  };
+};
+
+export const getSuccessLine = (level: LevelDefinition): GuideLine => ({
+  id: levelLineId(level.id, 'success'),
+  text: level.messages.success
+});
+
+// راهنمایی‌ها همزمان با پیام‌های مشخص بازی شروع می‌شوند و با هر اشتباه بعدی یک قدم جلوتر می‌روند
+export const getHintLine = (dialogue: GuideDialogue, failures: number): GuideLine | null => {
+  if (dialogue.hints.length === 0 || failures < HINT_AFTER_FAILURES) return null;
+  return dialogue.hints[Math.min(failures - HINT_AFTER_FAILURES, dialogue.hints.length - 1)];
+};
+
+// یادآوری‌های رنگ‌آمیزی برای همه مراحل یکی است و از فهرست پیام‌های زبان جاری می‌آید
+export const getIdleLine = (dialogue: GuideDialogue, phase: GamePhase, nudge: number, coloringNudges: GuideLine[]): GuideLine | null => {
+  const lines = phase === 'packing' ? dialogue.idle : phase === 'coloring' ? coloringNudges : [];
+  return lines.length > 0 ? lines[nudge % lines.length] : null;
+};
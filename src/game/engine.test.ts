@@ -0,0 +1,310 @@
+import {
+  EngineAction,
+  EngineEvent,
+  EngineState,
+  createInitialState,
+  diagnosePacking,
+  gameReducer,
+  validatePacking
+} from './engine';
+import { Flavor, LevelDefinition, defaultLevelSet } from './levels';
+
+const makeLevel = (overrides: Partial<LevelDefinition> = {}): LevelDefinition => ({
+  id: 'test-level',
+  name: 'Test',
+  concept: 'equal-sharing',
+  flavors: { cocoa: 2, orange: 2, strawberry: 2 },
+  presetBoxes: 0,
+  boxRange: { min: 1, max: 8 },
+  messages: { intro: 'intro', success: 'success', error: 'error' },
+  scoring: { points: 100 },
+  ...overrides
+});
+
+// حرکت‌ها را پشت سر هم اجرا می‌کند و همه رویدادها را جمع می‌کند
+const run = (state: EngineState, actions: EngineAction[]) =>
+  actions.reduce<{ state: EngineState; events: EngineEvent[] }>((result, action) => {
+    const next = gameReducer(result.state, action);
+    return { state: next.state, events: [...result.events, ...next.events] };
+  }, { state, events: [] });
+
+const addBoxes = (state: EngineState, count: number) =>
+  run(state, Array.from({ length: count }, (): EngineAction => ({ type: 'ADD_BOX' }))).state;
+
+// counts[i] شکلات در جعبه i ام و leftover شکلات در سینی؛ جعبه‌های کم‌آمده ساخته می‌شوند
+const pack = (state: EngineState, counts: number[], leftover = 0) => {
+  const withBoxes = addBoxes(state, Math.max(0, counts.length - state.boxes.length));
+  const ids = withBoxes.chocolates.map(c => c.id);
+  const actions: EngineAction[] = [];
+  counts.forEach((count, index) => {
+    ids.splice(0, count).forEach(chocolateId => {
+      actions.push({ type: 'DROP_CHOCOLATE', boxId: withBoxes.boxes[index].id, chocolateId });
+    });
+  });
+  ids.splice(0, leftover).forEach(chocolateId => actions.push({ type: 'DROP_LEFTOVER', chocolateId }));
+  return run(withBoxes, actions);
+};
+
+// هر گروه طعم‌هایی است که به ترتیب در یک جعبه می‌روند
+const packFlavors = (state: EngineState, groups: Flavor[][]) => {
+  const withBoxes = addBoxes(state, Math.max(0, groups.length - state.boxes.length));
+  const remaining = [...withBoxes.chocolates];
+  const actions = groups.flatMap((flavors, index) => flavors.map((flavor): EngineAction => {
+    const chocolate = remaining.splice(remaining.findIndex(c => c.type === flavor), 1)[0];
+    return { type: 'DROP_CHOCOLATE', boxId: withBoxes.boxes[index].id, chocolateId: chocolate.id };
+  }));
+  return run(withBoxes, actions);
+};
+
+const eventTypes = (events: EngineEvent[]) => events.map(event => event.type);
+
+describe('gameReducer', () => {
+  it('plays a whole level from drop to completion', () => {
+    const level = defaultLevelSet.levels[0];
+    const started = gameReducer(createInitialState(makeLevel()), { type: 'START_LEVEL', level, now: 0 });
+    expect(eventTypes(started.events)).toEqual(['level-started']);
+    expect(started.state.boxes).toHaveLength(level.presetBoxes);
+
+    const packed = pack(started.state, [3, 3]);
+    expect(packed.events.filter(event => event.type === 'chocolate-dropped')).toHaveLength(6);
+    expect(packed.events).toContainEqual({
+      type: 'packing-succeeded',
+      division: { chocolates: 6, boxes: 2, chocolatesPerBox: 3, remainder: 0 }
+    });
+    expect(packed.state.phase).toBe('coloring');
+    // بعد از بسته‌بندی شکلات‌ها جابه‌جا نمی‌شوند
+    expect(gameReducer(packed.state, { type: 'RETURN_CHOCOLATE', chocolateId: packed.state.chocolates[0].id }).state)
+      .toBe(packed.state);
+
+    const colored = run(packed.state, packed.state.boxes.map((box): EngineAction => ({
+      type: 'COLOR_BOX', boxId: box.id, color: 'red', now: 1000
+    })));
+    expect(colored.state.phase).toBe('completed');
+    const completed = colored.events.find(event => event.type === 'coloring-completed');
+    expect(completed).toMatchObject({ score: { points: level.scoring.points, stars: 3 } });
+  });
+
+  it('clears added boxes back to the warehouse', () => {
+    const { state } = pack(createInitialState(makeLevel()), [2, 1]);
+    const cleared = gameReducer(state, { type: 'CLEAR_BOXES' });
+    expect(eventTypes(cleared.events)).toEqual(['boxes-cleared']);
+    expect(cleared.state.boxes).toEqual([]);
+    expect(cleared.state.chocolates.some(c => c.placed)).toBe(false);
+  });
+
+  it('keeps preset boxes in place', () => {
+    const state = createInitialState(makeLevel({ presetBoxes: 2, boxRange: { min: 2, max: 2 } }));
+    expect(gameReducer(state, { type: 'CLEAR_BOXES' }).state).toBe(state);
+    expect(gameReducer(state, { type: 'ADD_BOX' }).state).toBe(state);
+  });
+});
+
+describe('validatePacking', () => {
+  it('waits until every chocolate is placed', () => {
+    const { state } = pack(createInitialState(makeLevel()), [3, 2]);
+    expect(validatePacking(state)).toEqual({ status: 'incomplete' });
+  });
+
+  it('rejects an uneven split', () => {
+    const { state } = pack(createInitialState(makeLevel()), [4, 2]);
+    expect(validatePacking(state)).toMatchObject({ status: 'invalid', boxCounts: [4, 2] });
+  });
+});
+
+describe('division with remainder', () => {
+  const level = makeLevel({ concept: 'division-with-remainder', flavors: { cocoa: 3, orange: 2, strawberry: 2 }, allowRemainder: true });
+
+  it('accepts equal boxes with the rest in the tray', () => {
+    const { state } = pack(createInitialState(level), [3, 3], 1);
+    expect(state.phase).toBe('coloring');
+    expect(validatePacking(state)).toEqual({
+      status: 'valid',
+      division: { chocolates: 7, boxes: 2, chocolatesPerBox: 3, remainder: 1 }
+    });
+  });
+
+  it('rejects a tray holding more than the remainder', () => {
+    const { state } = pack(createInitialState(level), [2, 2], 3);
+    expect(validatePacking(state)).toMatchObject({ status: 'invalid', boxCounts: [2, 2], leftover: 3 });
+  });
+
+  it('has no tray on levels without a remainder', () => {
+    const state = createInitialState(makeLevel());
+    expect(gameReducer(state, { type: 'DROP_LEFTOVER', chocolateId: state.chocolates[0].id }).state).toBe(state);
+  });
+});
+
+describe('customer orders', () => {
+  const level = makeLevel({
+    flavors: { cocoa: 2, orange: 2, strawberry: 0 },
+    order: [
+      { boxes: 1, flavor: 'cocoa', color: 'brown' },
+      { boxes: 1, flavor: 'orange', color: 'orange' }
+    ]
+  });
+
+  it('rejects equal boxes with the wrong flavors', () => {
+    const { state, events } = packFlavors(createInitialState(level), [['cocoa', 'orange'], ['cocoa', 'orange']]);
+    const validation = validatePacking(state);
+    expect(validation.status).toBe('invalid');
+    expect(validation.status === 'invalid' && validation.mismatches).toHaveLength(2);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'packing-failed', failures: 1 }));
+    expect(state.orderMistakes).toBe(2);
+  });
+
+  it('rejects a split that needs a different number of boxes', () => {
+    const { state } = packFlavors(createInitialState(level), [['cocoa'], ['cocoa'], ['orange'], ['orange']]);
+    expect(validatePacking(state)).toMatchObject({ status: 'invalid', mismatches: [] });
+  });
+
+  it('checks the wrapping once the flavors are right', () => {
+    const packed = packFlavors(createInitialState(level), [['orange', 'orange'], ['cocoa', 'cocoa']]);
+    expect(packed.state.phase).toBe('coloring');
+
+    const wrong = run(packed.state, [
+      { type: 'COLOR_BOX', boxId: 'box-0', color: 'brown' },
+      { type: 'COLOR_BOX', boxId: 'box-1', color: 'orange' }
+    ]);
+    expect(wrong.events).toContainEqual(expect.objectContaining({ type: 'coloring-mismatch' }));
+    expect(wrong.state.phase).toBe('coloring');
+    expect(wrong.state.orderMistakes).toBe(2);
+
+    const fixed = run(wrong.state, [
+      { type: 'COLOR_BOX', boxId: 'box-0', color: 'orange' },
+      { type: 'COLOR_BOX', boxId: 'box-1', color: 'brown' }
+    ]);
+    expect(fixed.state.phase).toBe('completed');
+  });
+});
+
+describe('moving chocolates', () => {
+  it('moves a chocolate between boxes and back to the warehouse', () => {
+    const { state } = pack(createInitialState(makeLevel()), [2, 1]);
+    const chocolateId = state.boxes[0].chocolates[0].id;
+
+    const moved = gameReducer(state, { type: 'DROP_CHOCOLATE', boxId: state.boxes[1].id, chocolateId });
+    expect(moved.events).toContainEqual({ type: 'chocolate-dropped', boxId: state.boxes[1].id, chocolateId, fromBoxId: state.boxes[0].id });
+    expect(moved.state.boxes.map(box => box.chocolates.length)).toEqual([1, 2]);
+
+    const returned = gameReducer(moved.state, { type: 'RETURN_CHOCOLATE', chocolateId });
+    expect(returned.events).toEqual([{ type: 'chocolate-returned', chocolateId, fromBoxId: state.boxes[1].id }]);
+    expect(returned.state.boxes.map(box => box.chocolates.length)).toEqual([1, 1]);
+    expect(returned.state.chocolates.find(c => c.id === chocolateId)?.placed).toBe(false);
+  });
+
+  it('returns the chocolates of a removed box to the warehouse', () => {
+    const { state } = pack(createInitialState(makeLevel()), [2, 1]);
+    const removed = gameReducer(state, { type: 'REMOVE_BOX', boxId: state.boxes[0].id });
+    expect(removed.events).toContainEqual({ type: 'box-removed', boxId: state.boxes[0].id, returnedChocolates: 2 });
+    expect(removed.state.boxes).toHaveLength(1);
+    expect(removed.state.chocolates.filter(c => c.placed)).toHaveLength(1);
+  });
+
+  it('cannot remove preset boxes', () => {
+    const state = createInitialState(makeLevel({ presetBoxes: 2, boxRange: { min: 2, max: 2 } }));
+    expect(gameReducer(state, { type: 'REMOVE_BOX', boxId: state.boxes[0].id }).state).toBe(state);
+  });
+});
+
+describe('wrong divisions', () => {
+  const level = makeLevel({ flavors: { cocoa: 3, orange: 3, strawberry: 3 } });
+
+  it('keeps the board and counts one failure when it is first filled', () => {
+    const failed = pack(createInitialState(level), [4, 4, 1]);
+    expect(failed.events.filter(event => event.type === 'packing-failed')).toEqual([
+      expect.objectContaining({ boxCounts: [4, 4, 1], failures: 1, mismatches: [] })
+    ]);
+    expect(failed.state.phase).toBe('packing');
+    expect(failed.state.chocolates.every(c => c.placed)).toBe(true);
+    expect(diagnosePacking(failed.state)).toMatchObject({
+      perBox: 3,
+      boxes: [{ status: 'over' }, { status: 'over' }, { status: 'under' }]
+    });
+  });
+
+  it('does not count the steps of fixing a full board', () => {
+    const failed = pack(createInitialState(level), [4, 4, 1]);
+    const [first, second, third] = failed.state.boxes;
+
+    const step = gameReducer(failed.state, { type: 'DROP_CHOCOLATE', boxId: third.id, chocolateId: first.chocolates[0].id });
+    expect(eventTypes(step.events)).toEqual(['chocolate-dropped', 'packing-adjusted']);
+    expect(step.events[1]).toMatchObject({ failures: 1, diagnosis: { boxes: [{ status: 'ok' }, { status: 'over' }, { status: 'under' }] } });
+
+    const fixed = gameReducer(step.state, { type: 'DROP_CHOCOLATE', boxId: third.id, chocolateId: second.chocolates[0].id });
+    expect(eventTypes(fixed.events)).toContain('packing-succeeded');
+    expect(fixed.state).toMatchObject({ packingFailures: 1, hintsShown: 0, orderMistakes: 0 });
+  });
+
+  it('does not count putting a chocolate back where it was', () => {
+    const failed = pack(createInitialState(level), [4, 4, 1]);
+    const box = failed.state.boxes[0];
+    const chocolateId = box.chocolates[box.chocolates.length - 1].id;
+    const repeated = run(failed.state, [
+      { type: 'RETURN_CHOCOLATE', chocolateId },
+      { type: 'DROP_CHOCOLATE', boxId: box.id, chocolateId }
+    ]);
+    expect(eventTypes(repeated.events)).not.toContain('packing-failed');
+    expect(repeated.state.packingFailures).toBe(1);
+  });
+
+  it('counts a new split when the board is filled again', () => {
+    const failed = pack(createInitialState(level), [4, 4, 1]);
+    const chocolateId = failed.state.boxes[0].chocolates[0].id;
+    const refilled = run(failed.state, [
+      { type: 'RETURN_CHOCOLATE', chocolateId },
+      { type: 'DROP_CHOCOLATE', boxId: failed.state.boxes[1].id, chocolateId }
+    ]);
+    expect(refilled.events).toContainEqual(expect.objectContaining({ type: 'packing-failed', boxCounts: [3, 5, 1], failures: 2 }));
+    expect(refilled.state.hintsShown).toBe(1);
+  });
+
+  it('diagnoses the tray on remainder levels', () => {
+    const remainderLevel = makeLevel({ concept: 'division-with-remainder', flavors: { cocoa: 3, orange: 2, strawberry: 2 }, allowRemainder: true });
+    const { state } = pack(createInitialState(remainderLevel), [2, 2], 3);
+    expect(diagnosePacking(state)).toMatchObject({
+      perBox: 3,
+      boxes: [{ status: 'under' }, { status: 'under' }],
+      leftover: { count: 3, expected: 1, status: 'over' }
+    });
+  });
+
+  it('suggests the box count of a customer order', () => {
+    const orderLevel = makeLevel({
+      flavors: { cocoa: 2, orange: 2, strawberry: 0 },
+      order: [{ boxes: 1, flavor: 'cocoa' }, { boxes: 1, flavor: 'orange' }]
+    });
+    const { state } = packFlavors(createInitialState(orderLevel), [['cocoa'], ['cocoa'], ['orange'], ['orange']]);
+    expect(diagnosePacking(state).suggestedBoxCounts).toEqual([2]);
+  });
+});
+
+describe('fixed box capacity', () => {
+  const level = makeLevel({ concept: 'equal-grouping', boxCapacity: 3 });
+
+  it('accepts full boxes and finds the number of boxes', () => {
+    const { state } = pack(createInitialState(level), [3, 3]);
+    expect(validatePacking(state)).toEqual({
+      status: 'valid',
+      division: { chocolates: 6, boxes: 2, chocolatesPerBox: 3, remainder: 0 }
+    });
+  });
+
+  it('refuses to overfill a box', () => {
+    const state = addBoxes(createInitialState(level), 1);
+    const dropped = run(state, state.chocolates.slice(0, 4).map((chocolate): EngineAction => ({
+      type: 'DROP_CHOCOLATE', boxId: 'box-0', chocolateId: chocolate.id
+    })));
+    expect(dropped.state.boxes[0].chocolates).toHaveLength(3);
+    expect(dropped.events[dropped.events.length - 1]).toEqual({ type: 'box-full', boxId: 'box-0', capacity: 3 });
+  });
+
+  it('diagnoses partly filled boxes against the capacity', () => {
+    const { state } = pack(createInitialState(level), [3, 2, 1]);
+    expect(validatePacking(state).status).toBe('invalid');
+    expect(diagnosePacking(state)).toMatchObject({
+      perBox: 3,
+      boxes: [{ status: 'ok' }, { status: 'under' }, { status: 'under' }],
+      suggestedBoxCounts: [2]
+    });
+  });
+});
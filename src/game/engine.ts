@@ -0,0 +1,484 @@
+// Pure game rules for packing and coloring; shared by the DOM and Pixi renderers
+import { FLAVORS, Flavor, LevelDefinition, WrappingColor, getChocolateCount, getRequiredBoxCount } from './levels';
+import { BoxMismatch, getOrderBoxCount, validateOrder } from './orders';
+import { LevelScore, scoreLevel } from './scoring';
+
+export type GamePhase = 'packing' | 'coloring' | 'completed';
+
+export interface ChocolateItem {
+  id: string;
+  type: Flavor;
+  placed: boolean;
+}
+
+export interface BoxItem {
+  id: string;
+  chocolates: ChocolateItem[];
+  color: WrappingColor | null;
+}
+
+export interface EngineState {
+  level: LevelDefinition;
+  chocolates: ChocolateItem[];
+  boxes: BoxItem[];
+  // سینی باقی‌مانده برای مراحلی که allowRemainder دارند
+  leftover: ChocolateItem[];
+  phase: GamePhase;
+  nextBoxId: number;
+  // تعداد تلاش‌های ناموفق بسته‌بندی در این مرحله؛ راهنمایی‌ها با آن قوی‌تر می‌شوند
+  packingFailures: number;
+  lastFailedArrangement: string | null;
+  // راهنمایی‌های مشخص (بعد از HINT_AFTER_FAILURES تلاش ناموفق) و اشتباه‌های طعم یا رنگ سفارش
+  hintsShown: number;
+  orderMistakes: number;
+  startedAt: number;
+}
+
+// از این تعداد تلاش ناموفق به بعد، پیام خطا راهنمایی مشخص می‌دهد
+export const HINT_AFTER_FAILURES = 2;
+
+export type EngineAction =
+  | { type: 'START_LEVEL'; level: LevelDefinition; random?: () => number; now?: number }
+  | { type: 'ADD_BOX' }
+  | { type: 'CLEAR_BOXES' }
+  | { type: 'DROP_CHOCOLATE'; boxId: string; chocolateId: string }
+  | { type: 'DROP_LEFTOVER'; chocolateId: string }
+  | { type: 'RETURN_CHOCOLATE'; chocolateId: string }
+  | { type: 'REMOVE_BOX'; boxId: string }
+  | { type: 'COLOR_BOX'; boxId: string; color: WrappingColor; now?: number };
+
+export type EngineEvent =
+  | { type: 'level-started' }
+  | { type: 'box-added'; boxId: string }
+  | { type: 'boxes-cleared' }
+  | { type: 'chocolate-dropped'; boxId: string; chocolateId: string; fromBoxId: string | null }
+  | { type: 'box-full'; boxId: string; capacity: number }
+  | { type: 'leftover-dropped'; chocolateId: string; fromBoxId: string | null }
+  | { type: 'chocolate-returned'; chocolateId: string; fromBoxId: string | null }
+  | { type: 'box-removed'; boxId: string; returnedChocolates: number }
+  | { type: 'box-colored'; boxId: string; color: WrappingColor }
+  | { type: 'packing-succeeded'; division: Division }
+  | {
+      type: 'packing-failed';
+      boxCounts: number[];
+      leftover: number;
+      mismatches: BoxMismatch[];
+      diagnosis: PackingDiagnosis;
+      failures: number;
+    }
+  // بچه صفحه‌ای را که همه شکلات‌هایش چیده شده جابه‌جا کرد و هنوز درست نیست؛ تلاش تازه حساب نمی‌شود
+  | { type: 'packing-adjusted'; mismatches: BoxMismatch[]; diagnosis: PackingDiagnosis; failures: number }
+  | { type: 'coloring-mismatch'; mismatches: BoxMismatch[] }
+  | { type: 'coloring-completed'; score: LevelScore };
+
+export interface EngineResult {
+  state: EngineState;
+  events: EngineEvent[];
+}
+
+// chocolates = chocolatesPerBox × boxes + remainder
+export interface Division {
+  chocolates: number;
+  boxes: number;
+  chocolatesPerBox: number;
+  remainder: number;
+}
+
+export type BoxCountStatus = 'ok' | 'over' | 'under';
+
+export interface BoxDiagnosis {
+  boxId: string;
+  count: number;
+  status: BoxCountStatus;
+}
+
+export interface PackingDiagnosis {
+  // تعداد درست شکلات در هر جعبه؛ null یعنی با این تعداد جعبه تقسیم درست ممکن نیست
+  perBox: number | null;
+  boxes: BoxDiagnosis[];
+  leftover: { count: number; expected: number; status: BoxCountStatus } | null;
+  suggestedBoxCounts: number[];
+}
+
+export type PackingValidation =
+  | { status: 'incomplete' }
+  | { status: 'valid'; division: Division }
+  | { status: 'invalid'; boxCounts: number[]; leftover: number; mismatches: BoxMismatch[] };
+
+const shuffle = <T,>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const createBox = (index: number): BoxItem => ({
+  id: `box-${index}`,
+  chocolates: [],
+  color: null
+});
+
+export const createInitialState = (
+  level: LevelDefinition,
+  random: () => number = Math.random,
+  now: number = Date.now()
+): EngineState => {
+  const chocolates: ChocolateItem[] = [];
+  let id = 0;
+  FLAVORS.forEach(flavor => {
+    for (let i = 0; i < level.flavors[flavor]; i++) {
+      chocolates.push({ id: `chocolate-${id++}`, type: flavor, placed: false });
+    }
+  });
+
+  const boxes: BoxItem[] = [];
+  for (let i = 0; i < level.presetBoxes; i++) {
+    boxes.push(createBox(i));
+  }
+
+  return {
+    level,
+    chocolates: shuffle(chocolates, random),
+    boxes,
+    leftover: [],
+    phase: 'packing',
+    nextBoxId: boxes.length,
+    packingFailures: 0,
+    lastFailedArrangement: null,
+    hintsShown: 0,
+    orderMistakes: 0,
+    startedAt: now
+  };
+};
+
+// برگشتن روی صفحه اشتباه‌های ثبت‌شده را پاک نمی‌کند تا امتیاز با برگشت‌های پشت سر هم بالا نرود
+export const carryAttemptStats = (from: EngineState, to: EngineState): EngineState =>
+  from.level.id === to.level.id
+    ? {
+        ...to,
+        packingFailures: Math.max(from.packingFailures, to.packingFailures),
+        hintsShown: Math.max(from.hintsShown, to.hintsShown),
+        orderMistakes: Math.max(from.orderMistakes, to.orderMistakes),
+        startedAt: from.startedAt
+      }
+    : to;
+
+export const formatDivision = (
+  { chocolates, boxes, chocolatesPerBox, remainder }: Division,
+  format: (value: number) => string = String
+): string =>
+  remainder > 0
+    ? `${format(chocolates)} = ${format(chocolatesPerBox)} × ${format(boxes)} + ${format(remainder)}`
+    : `${format(chocolates)} = ${format(chocolatesPerBox)} × ${format(boxes)}`;
+
+export const canAddBox = (state: EngineState): boolean =>
+  state.phase === 'packing' && state.boxes.length < state.level.boxRange.max;
+
+// جعبه‌ها فقط در مراحلی که جعبه آماده ندارند پاک می‌شوند
+export const canClearBoxes = (state: EngineState): boolean =>
+  state.phase === 'packing' && state.level.presetBoxes === 0;
+
+export const canRemoveBox = canClearBoxes;
+
+export const isBoxFull = (state: EngineState, box: BoxItem): boolean =>
+  !!state.level.boxCapacity && box.chocolates.length >= state.level.boxCapacity;
+
+// جای فعلی یک شکلات: شناسه جعبه، سینی باقی‌مانده (LEFTOVER_TRAY) یا null برای انبار
+export const LEFTOVER_TRAY = 'leftover';
+
+export const findChocolateLocation = (state: Pick<EngineState, 'boxes' | 'leftover'>, chocolateId: string): string | null => {
+  const box = state.boxes.find(b => b.chocolates.some(c => c.id === chocolateId));
+  if (box) return box.id;
+  return state.leftover.some(c => c.id === chocolateId) ? LEFTOVER_TRAY : null;
+};
+
+export const validatePacking = (state: EngineState): PackingValidation => {
+  const chocolateCount = getChocolateCount(state.level);
+  const placedChocolates = state.chocolates.filter(c => c.placed).length;
+  if (placedChocolates !== chocolateCount || state.boxes.length === 0) {
+    return { status: 'incomplete' };
+  }
+
+  // با ظرفیت ثابت هر جعبه باید پر باشد؛ آن وقت تعداد جعبه‌ها خودبه‌خود همان جواب تقسیم است
+  const capacity = state.level.boxCapacity;
+  const chocolatesPerBox = capacity ?? Math.floor(chocolateCount / state.boxes.length);
+  const divisor = capacity ?? state.boxes.length;
+  const remainder = state.level.allowRemainder ? chocolateCount % divisor : 0;
+  const isEvenlyDistributed = chocolatesPerBox > 0
+    && state.boxes.every(box => box.chocolates.length === chocolatesPerBox)
+    && state.leftover.length === remainder;
+  const order = state.level.order;
+  const matchesOrderSize = !order || state.boxes.length === getOrderBoxCount(order);
+  // تعداد جعبه‌ها باید در بازه مرحله باشد؛ وگرنه مثلاً یک جعبه همه شکلات‌ها را بدون باقی‌مانده می‌گیرد
+  const { min, max } = state.level.boxRange;
+  const withinBoxRange = state.boxes.length >= min && state.boxes.length <= max;
+  // طعم جعبه‌ها فقط وقتی بررسی می‌شود که تقسیم درست باشد
+  const mismatches = order && isEvenlyDistributed && matchesOrderSize
+    ? validateOrder(state.boxes, order, ['flavor'])
+    : [];
+
+  return isEvenlyDistributed && matchesOrderSize && withinBoxRange && mismatches.length === 0
+    ? { status: 'valid', division: { chocolates: chocolateCount, boxes: state.boxes.length, chocolatesPerBox, remainder } }
+    : {
+        status: 'invalid',
+        boxCounts: state.boxes.map(box => box.chocolates.length),
+        leftover: state.leftover.length,
+        mismatches
+      };
+};
+
+const countStatus = (count: number, expected: number): BoxCountStatus =>
+  count > expected ? 'over' : count < expected ? 'under' : 'ok';
+
+// وضعیت هر جعبه نسبت به تقسیم درست، برای نشان دادن جعبه‌های پر یا کم
+export const diagnosePacking = (state: EngineState): PackingDiagnosis => {
+  const chocolateCount = getChocolateCount(state.level);
+  const boxCount = state.boxes.length;
+  const order = state.level.order;
+  const { min, max } = state.level.boxRange;
+
+  const capacity = state.level.boxCapacity;
+  const requiredBoxes = getRequiredBoxCount(state.level);
+
+  let suggestedBoxCounts: number[] = [];
+  if (order) {
+    suggestedBoxCounts = [getOrderBoxCount(order)];
+  } else if (requiredBoxes !== null) {
+    suggestedBoxCounts = [requiredBoxes];
+  } else {
+    for (let k = min; k <= max; k++) {
+      if (state.level.allowRemainder ? chocolateCount >= k : chocolateCount % k === 0) {
+        suggestedBoxCounts.push(k);
+      }
+    }
+  }
+
+  // با ظرفیت ثابت، اندازه درست هر جعبه از اول معلوم است
+  let perBox: number | null = capacity ?? null;
+  if (!capacity && boxCount > 0 && suggestedBoxCounts.includes(boxCount)) {
+    perBox = Math.floor(chocolateCount / boxCount);
+  }
+  const expectedLeftover = chocolateCount % (capacity ?? Math.max(boxCount, 1));
+
+  return {
+    perBox,
+    boxes: state.boxes.map(box => ({
+      boxId: box.id,
+      count: box.chocolates.length,
+      status: perBox === null ? 'ok' : countStatus(box.chocolates.length, perBox)
+    })),
+    leftover: state.level.allowRemainder && perBox !== null
+      ? {
+          count: state.leftover.length,
+          expected: expectedLeftover,
+          status: countStatus(state.leftover.length, expectedLeftover)
+        }
+      : null,
+    suggestedBoxCounts: suggestedBoxCounts.filter(k => k !== boxCount)
+  };
+};
+
+const describeArrangement = (state: EngineState): string =>
+  [...state.boxes.map(box => box.chocolates.map(c => c.id).join(',')), state.leftover.map(c => c.id).join(',')].join('|');
+
+// شکلات را از هر جایی که هست (جعبه یا سینی) برمی‌دارد و به حالت انبار برمی‌گرداند
+const detachChocolate = (state: EngineState, chocolateId: string): EngineState => ({
+  ...state,
+  chocolates: state.chocolates.map(c => c.id === chocolateId ? { ...c, placed: false } : c),
+  boxes: state.boxes.map(box =>
+    box.chocolates.some(c => c.id === chocolateId)
+      ? { ...box, chocolates: box.chocolates.filter(c => c.id !== chocolateId) }
+      : box
+  ),
+  leftover: state.leftover.filter(c => c.id !== chocolateId)
+});
+
+const markPlaced = (state: EngineState, chocolateId: string): { state: EngineState; chocolate: ChocolateItem } | null => {
+  const chocolate = state.chocolates.find(c => c.id === chocolateId);
+  if (!chocolate) return null;
+  const placedChocolate = { ...chocolate, placed: true };
+  return {
+    state: { ...state, chocolates: state.chocolates.map(c => c.id === chocolateId ? placedChocolate : c) },
+    chocolate: placedChocolate
+  };
+};
+
+export const isColoringComplete = (state: EngineState): boolean =>
+  state.boxes.length > 0 && state.boxes.every(box => box.color);
+
+// همه شکلات‌ها در جعبه‌ها یا سینی باقی‌مانده چیده شده‌اند
+const isBoardFull = (state: EngineState): boolean => state.chocolates.every(c => c.placed);
+
+const resolvePacking = (previous: EngineState, state: EngineState, events: EngineEvent[]): EngineResult => {
+  const validation = validatePacking(state);
+
+  if (validation.status === 'valid') {
+    events.push({ type: 'packing-succeeded', division: validation.division });
+    return { state: { ...state, phase: 'coloring' }, events };
+  }
+
+  // تقسیم اشتباه صفحه را پاک نمی‌کند؛ فقط وقتی صفحه تازه پر می‌شود یک تلاش ناموفق حساب می‌شود،
+  // نه با هر جابه‌جایی بچه برای درست کردن همان جعبه‌ها
+  if (validation.status === 'invalid') {
+    const arrangement = describeArrangement(state);
+    if (isBoardFull(previous) || arrangement === state.lastFailedArrangement) {
+      events.push({
+        type: 'packing-adjusted',
+        mismatches: validation.mismatches,
+        diagnosis: diagnosePacking(state),
+        failures: state.packingFailures
+      });
+      return { state: { ...state, lastFailedArrangement: arrangement }, events };
+    }
+    const failures = state.packingFailures + 1;
+    const hinted = validation.mismatches.length === 0 && failures >= HINT_AFTER_FAILURES;
+    events.push({
+      type: 'packing-failed',
+      boxCounts: validation.boxCounts,
+      leftover: validation.leftover,
+      mismatches: validation.mismatches,
+      diagnosis: diagnosePacking(state),
+      failures
+    });
+    return {
+      state: {
+        ...state,
+        packingFailures: failures,
+        lastFailedArrangement: arrangement,
+        hintsShown: state.hintsShown + (hinted ? 1 : 0),
+        orderMistakes: state.orderMistakes + validation.mismatches.length
+      },
+      events
+    };
+  }
+
+  return { state, events };
+};
+
+const resolveColoring = (state: EngineState, events: EngineEvent[], now: number): EngineResult => {
+  if (!isColoringComplete(state)) {
+    return { state, events };
+  }
+  if (state.level.order) {
+    const mismatches = validateOrder(state.boxes, state.level.order, ['flavor', 'color']);
+    if (mismatches.length > 0) {
+      events.push({ type: 'coloring-mismatch', mismatches });
+      return { state: { ...state, orderMistakes: state.orderMistakes + mismatches.length }, events };
+    }
+  }
+  const score = scoreLevel(state.level, {
+    packingFailures: state.packingFailures,
+    hintsShown: state.hintsShown,
+    orderMistakes: state.orderMistakes,
+    elapsedMs: Math.max(0, now - state.startedAt)
+  });
+  events.push({ type: 'coloring-completed', score });
+  return { state: { ...state, phase: 'completed' }, events };
+};
+
+export const gameReducer = (state: EngineState, action: EngineAction): EngineResult => {
+  switch (action.type) {
+    case 'START_LEVEL':
+      return {
+        state: createInitialState(action.level, action.random, action.now),
+        events: [{ type: 'level-started' }]
+      };
+
+    case 'ADD_BOX': {
+      if (!canAddBox(state)) return { state, events: [] };
+      const box = createBox(state.nextBoxId);
+      return {
+        state: { ...state, boxes: [...state.boxes, box], nextBoxId: state.nextBoxId + 1 },
+        events: [{ type: 'box-added', boxId: box.id }]
+      };
+    }
+
+    case 'CLEAR_BOXES':
+      if (!canClearBoxes(state)) return { state, events: [] };
+      return {
+        state: {
+          ...state,
+          boxes: [],
+          leftover: [],
+          chocolates: state.chocolates.map(c => ({ ...c, placed: false })),
+          phase: 'packing'
+        },
+        events: [{ type: 'boxes-cleared' }]
+      };
+
+    case 'DROP_CHOCOLATE': {
+      if (state.phase !== 'packing' || !state.boxes.some(box => box.id === action.boxId)) return { state, events: [] };
+      const fromBoxId = findChocolateLocation(state, action.chocolateId);
+      if (fromBoxId === action.boxId) return { state, events: [] };
+      const target = state.boxes.find(box => box.id === action.boxId);
+      if (target && state.level.boxCapacity && isBoxFull(state, target)) {
+        return { state, events: [{ type: 'box-full', boxId: action.boxId, capacity: state.level.boxCapacity }] };
+      }
+      const placed = markPlaced(detachChocolate(state, action.chocolateId), action.chocolateId);
+      if (!placed) return { state, events: [] };
+
+      const next: EngineState = {
+        ...placed.state,
+        boxes: placed.state.boxes.map(box =>
+          box.id === action.boxId
+            ? { ...box, chocolates: [...box.chocolates, placed.chocolate] }
+            : box
+        )
+      };
+      return resolvePacking(state, next, [{ type: 'chocolate-dropped', boxId: action.boxId, chocolateId: action.chocolateId, fromBoxId }]);
+    }
+
+    case 'DROP_LEFTOVER': {
+      if (state.phase !== 'packing' || !state.level.allowRemainder) return { state, events: [] };
+      const fromBoxId = findChocolateLocation(state, action.chocolateId);
+      if (fromBoxId === LEFTOVER_TRAY) return { state, events: [] };
+      const placed = markPlaced(detachChocolate(state, action.chocolateId), action.chocolateId);
+      if (!placed) return { state, events: [] };
+
+      const next: EngineState = {
+        ...placed.state,
+        leftover: [...placed.state.leftover, placed.chocolate]
+      };
+      return resolvePacking(state, next, [{ type: 'leftover-dropped', chocolateId: action.chocolateId, fromBoxId }]);
+    }
+
+    case 'RETURN_CHOCOLATE': {
+      if (state.phase !== 'packing') return { state, events: [] };
+      const fromBoxId = findChocolateLocation(state, action.chocolateId);
+      const chocolate = state.chocolates.find(c => c.id === action.chocolateId);
+      if (!chocolate || !chocolate.placed) return { state, events: [] };
+      return {
+        state: detachChocolate(state, action.chocolateId),
+        events: [{ type: 'chocolate-returned', chocolateId: action.chocolateId, fromBoxId }]
+      };
+    }
+
+    case 'REMOVE_BOX': {
+      const box = state.boxes.find(b => b.id === action.boxId);
+      if (!canRemoveBox(state) || !box) return { state, events: [] };
+      const returnedIds = box.chocolates.map(c => c.id);
+      const next: EngineState = {
+        ...state,
+        boxes: state.boxes.filter(b => b.id !== action.boxId),
+        chocolates: state.chocolates.map(c => returnedIds.includes(c.id) ? { ...c, placed: false } : c)
+      };
+      return resolvePacking(state, next, [{ type: 'box-removed', boxId: action.boxId, returnedChocolates: returnedIds.length }]);
+    }
+
+    case 'COLOR_BOX': {
+      if (state.phase !== 'coloring' || !state.boxes.some(box => box.id === action.boxId)) {
+        return { state, events: [] };
+      }
+      const next: EngineState = {
+        ...state,
+        boxes: state.boxes.map(box => box.id === action.boxId ? { ...box, color: action.color } : box)
+      };
+      return resolveColoring(next, [{ type: 'box-colored', boxId: action.boxId, color: action.color }], action.now ?? Date.now());
+    }
+
+    default:
+      return { state, events: [] };
+  }
+};
@@ -0,0 +1,32 @@
+import { defaultLevelSet, LevelDefinition, validateLevelSet } from './levels';
+
+const baseLevel = defaultLevelSet.levels[0];
+
+const issuesFor = (overrides: Partial<LevelDefinition>) =>
+  validateLevelSet({ version: 1, id: 'test', name: 'Test', levels: [{ ...baseLevel, ...overrides }] });
+
+describe('validateLevelSet', () => {
+  it('accepts the default levels', () => {
+    expect(validateLevelSet(defaultLevelSet)).toEqual([]);
+  });
+
+  it('rejects a level no box count in its range can split evenly', () => {
+    const issues = issuesFor({ flavors: { cocoa: 7, orange: 0, strawberry: 0 }, presetBoxes: 0, boxRange: { min: 2, max: 6 } });
+    expect(issues).toEqual(['levels[0].boxRange: no box count from 2 to 6 packs the level']);
+  });
+
+  it('rejects preset boxes that cannot split the chocolates', () => {
+    const issues = issuesFor({ flavors: { cocoa: 3, orange: 2, strawberry: 2 }, presetBoxes: 2, boxRange: { min: 2, max: 2 } });
+    expect(issues).toEqual(['levels[0].boxRange: no box count from 2 to 2 packs the level']);
+  });
+
+  it('accepts an uneven split when the level allows a remainder', () => {
+    expect(issuesFor({
+      concept: 'division-with-remainder',
+      flavors: { cocoa: 7, orange: 0, strawberry: 0 },
+      presetBoxes: 0,
+      boxRange: { min: 2, max: 3 },
+      allowRemainder: true
+    })).toEqual([]);
+  });
+});
@@ -0,0 +1,371 @@
+// Level definitions for the chocolate packing game, loaded from versioned JSON files
+import defaultLevelsJson from './levels/default.json';
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+export type Flavor = 'cocoa' | 'orange' | 'strawberry';
+
+export const FLAVORS: Flavor[] = ['cocoa', 'orange', 'strawberry'];
+
+// هر رنگ کادو متناظر با یک طعم است
+export type WrappingColor = 'brown' | 'orange' | 'red';
+
+export const WRAPPING_COLORS: WrappingColor[] = ['brown', 'orange', 'red'];
+
+export const FLAVOR_WRAPPING: Record<Flavor, WrappingColor> = {
+  cocoa: 'brown',
+  orange: 'orange',
+  strawberry: 'red'
+};
+
+// یک ردیف از سفارش مشتری، مثلاً «۲ جعبه توت‌فرنگی با کادوی قرمز»
+export interface OrderLine {
+  boxes: number;
+  flavor: Flavor | 'mixed';
+  color?: WrappingColor;
+}
+
+// مفهوم ریاضی که هر مرحله آموزش می‌دهد
+export type LevelConcept = 'equal-sharing' | 'divisors' | 'prime-numbers' | 'division-with-remainder' | 'equal-grouping';
+
+export const LEVEL_CONCEPTS: LevelConcept[] = ['equal-sharing', 'divisors', 'prime-numbers', 'division-with-remainder', 'equal-grouping'];
+
+export interface LevelMessages {
+  intro: string;
+  success: string;
+  error: string;
+  lesson?: string;
+}
+
+// متن‌های راهنمای بازی: معرفی مرحله، یادآوری وقتی بچه کاری نمی‌کند و راهنمایی‌های پله‌پله بعد از اشتباه
+export interface LevelDialogue {
+  intro: string[];
+  idle: string[];
+  hints: string[];
+}
+
+// متن‌های مرحله به زبان‌های دیگر؛ هر متنی که ترجمه نشده باشد از متن اصلی برداشته می‌شود
+export interface LevelTranslation {
+  name?: string;
+  messages?: Partial<LevelMessages>;
+  dialogue?: Partial<LevelDialogue>;
+}
+
+export interface LevelScoring {
+  // امتیاز کامل مرحله برای حل بی‌اشتباه و به‌موقع
+  points: number;
+  // زمان مناسب حل مرحله به ثانیه؛ بعد از آن امتیاز زمان کم می‌شود
+  parSeconds?: number;
+}
+
+export interface LevelDefinition {
+  id: string;
+  name: string;
+  concept: LevelConcept;
+  flavors: Record<Flavor, number>;
+  presetBoxes: number;
+  boxRange: { min: number; max: number };
+  // شکلات‌هایی که تقسیم نمی‌شوند در سینی باقی‌مانده گذاشته می‌شوند
+  allowRemainder?: boolean;
+  // مسئله وارونه: هر جعبه دقیقاً این تعداد جا دارد و بچه تعداد جعبه‌ها را پیدا می‌کند
+  boxCapacity?: number;
+  order?: OrderLine[];
+  messages: LevelMessages;
+  dialogue?: LevelDialogue;
+  translations?: Record<string, LevelTranslation>;
+  scoring: LevelScoring;
+}
+
+export interface LevelSet {
+  version: number;
+  id: string;
+  name: string;
+  levels: LevelDefinition[];
+}
+
+export class LevelSetValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid level set:\n${issues.join('\n')}`);
+    this.name = 'LevelSetValidationError';
+    this.issues = issues;
+  }
+}
+
+export const getChocolateCount = (level: LevelDefinition): number =>
+  FLAVORS.reduce((sum, flavor) => sum + level.flavors[flavor], 0);
+
+// در مراحل با ظرفیت ثابت، تعداد جعبه‌های پر جواب تقسیم است
+export const getRequiredBoxCount = (level: LevelDefinition): number | null =>
+  level.boxCapacity ? Math.floor(getChocolateCount(level) / level.boxCapacity) : null;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const validateOrder = (order: unknown, path: string, issues: string[]) => {
+  if (!Array.isArray(order) || order.length === 0) {
+    issues.push(`${path}: must be a non-empty array when set`);
+    return;
+  }
+  order.forEach((line, index) => {
+    const linePath = `${path}[${index}]`;
+    if (!isRecord(line)) {
+      issues.push(`${linePath}: must be an object`);
+      return;
+    }
+    if (!isCount(line.boxes) || line.boxes === 0) issues.push(`${linePath}.boxes: must be a positive integer`);
+    if (line.flavor !== 'mixed' && !FLAVORS.includes(line.flavor as Flavor)) {
+      issues.push(`${linePath}.flavor: must be one of ${[...FLAVORS, 'mixed'].join(', ')}`);
+    }
+    if (line.color !== undefined && !WRAPPING_COLORS.includes(line.color as WrappingColor)) {
+      issues.push(`${linePath}.color: must be one of ${WRAPPING_COLORS.join(', ')}`);
+    }
+  });
+};
+
+// تعداد جعبه‌هایی که با آن‌ها مرحله حل می‌شود؛ جعبه‌های آماده برداشته نمی‌شوند پس کمتر از آن‌ها ممکن نیست
+const getSolvableBoxCounts = (level: LevelDefinition): number[] => {
+  const chocolateCount = getChocolateCount(level);
+  const requiredBoxes = getRequiredBoxCount(level);
+  const orderBoxes = level.order?.reduce((sum, line) => sum + line.boxes, 0);
+  const counts: number[] = [];
+  for (let boxes = Math.max(level.boxRange.min, level.presetBoxes); boxes <= level.boxRange.max; boxes++) {
+    const divides = level.allowRemainder ? boxes <= chocolateCount : chocolateCount % boxes === 0;
+    const fits = requiredBoxes !== null ? boxes === requiredBoxes : divides;
+    if (fits && (orderBoxes === undefined || boxes === orderBoxes)) counts.push(boxes);
+  }
+  return counts;
+};
+
+const validateLevel = (level: unknown, path: string, issues: string[]) => {
+  if (!isRecord(level)) {
+    issues.push(`${path}: must be an object`);
+    return;
+  }
+  const issueCount = issues.length;
+
+  if (!isNonEmptyString(level.id)) issues.push(`${path}.id: must be a non-empty string`);
+  if (!isNonEmptyString(level.name)) issues.push(`${path}.name: must be a non-empty string`);
+  if (!LEVEL_CONCEPTS.includes(level.concept as LevelConcept)) {
+    issues.push(`${path}.concept: must be one of ${LEVEL_CONCEPTS.join(', ')}`);
+  }
+
+  let chocolateCount = 0;
+  if (!isRecord(level.flavors)) {
+    issues.push(`${path}.flavors: must be an object`);
+  } else {
+    const flavors = level.flavors;
+    FLAVORS.forEach(flavor => {
+      if (!isCount(flavors[flavor])) {
+        issues.push(`${path}.flavors.${flavor}: must be a non-negative integer`);
+      } else {
+        chocolateCount += flavors[flavor] as number;
+      }
+    });
+    Object.keys(flavors)
+      .filter(key => !FLAVORS.includes(key as Flavor))
+      .forEach(key => issues.push(`${path}.flavors.${key}: unknown flavor`));
+    if (chocolateCount === 0) issues.push(`${path}.flavors: level needs at least one chocolate`);
+  }
+
+  if (!isCount(level.presetBoxes)) issues.push(`${path}.presetBoxes: must be a non-negative integer`);
+
+  if (!isRecord(level.boxRange) || !isCount(level.boxRange.min) || !isCount(level.boxRange.max)) {
+    issues.push(`${path}.boxRange: must have integer min and max`);
+  } else {
+    const { min, max } = level.boxRange as { min: number; max: number };
+    if (min < 1 || min > max) issues.push(`${path}.boxRange: expected 1 <= min <= max`);
+    if (isCount(level.presetBoxes) && (level.presetBoxes > max)) {
+      issues.push(`${path}.presetBoxes: cannot exceed boxRange.max`);
+    }
+  }
+
+  if (level.allowRemainder !== undefined && typeof level.allowRemainder !== 'boolean') {
+    issues.push(`${path}.allowRemainder: must be a boolean when set`);
+  }
+
+  if (level.order !== undefined && level.allowRemainder) {
+    issues.push(`${path}.order: cannot be combined with allowRemainder`);
+  }
+
+  if (level.boxCapacity !== undefined) {
+    if (!isCount(level.boxCapacity) || level.boxCapacity === 0) {
+      issues.push(`${path}.boxCapacity: must be a positive integer when set`);
+    } else {
+      const capacity = level.boxCapacity;
+      const requiredBoxes = Math.floor(chocolateCount / capacity);
+      if (level.presetBoxes !== 0) issues.push(`${path}.presetBoxes: must be 0 when boxCapacity is set`);
+      if (!level.allowRemainder && chocolateCount % capacity !== 0) {
+        issues.push(`${path}.boxCapacity: ${chocolateCount} chocolates do not fill boxes of ${capacity} exactly`);
+      }
+      if (requiredBoxes === 0) issues.push(`${path}.boxCapacity: cannot exceed the number of chocolates`);
+      if (isRecord(level.boxRange) && isCount(level.boxRange.max) && requiredBoxes > level.boxRange.max) {
+        issues.push(`${path}.boxRange: max must allow the ${requiredBoxes} boxes the capacity needs`);
+      }
+      if (Array.isArray(level.order) && level.order.every(line => isRecord(line) && isCount(line.boxes))) {
+        const orderBoxes = (level.order as OrderLine[]).reduce((sum, line) => sum + line.boxes, 0);
+        if (orderBoxes !== requiredBoxes) {
+          issues.push(`${path}.order: must ask for ${requiredBoxes} boxes of ${capacity}`);
+        }
+      }
+    }
+  }
+
+  if (level.order !== undefined) {
+    validateOrder(level.order, `${path}.order`, issues);
+    if (Array.isArray(level.order) && level.order.every(line => isRecord(line) && isCount(line.boxes))) {
+      const orderBoxes = (level.order as OrderLine[]).reduce((sum, line) => sum + line.boxes, 0);
+      if (orderBoxes > 0 && chocolateCount % orderBoxes !== 0) {
+        issues.push(`${path}.order: ${orderBoxes} boxes cannot split ${chocolateCount} chocolates evenly`);
+      }
+    }
+  }
+
+  if (!isRecord(level.messages)) {
+    issues.push(`${path}.messages: must be an object`);
+  } else {
+    const messages = level.messages;
+    (['intro', 'success', 'error'] as const).forEach(key => {
+      if (!isNonEmptyString(messages[key])) issues.push(`${path}.messages.${key}: must be a non-empty string`);
+    });
+    if (messages.lesson !== undefined && !isNonEmptyString(messages.lesson)) {
+      issues.push(`${path}.messages.lesson: must be a non-empty string when set`);
+    }
+  }
+
+  if (level.dialogue !== undefined) {
+    if (!isRecord(level.dialogue)) {
+      issues.push(`${path}.dialogue: must be an object when set`);
+    } else {
+      const dialogue = level.dialogue;
+      (['intro', 'idle', 'hints'] as const).forEach(key => {
+        const lines = dialogue[key];
+        if (!Array.isArray(lines) || !lines.every(isNonEmptyString)) {
+          issues.push(`${path}.dialogue.${key}: must be an array of non-empty strings`);
+        }
+      });
+    }
+  }
+
+  if (level.translations !== undefined) {
+    if (!isRecord(level.translations)) {
+      issues.push(`${path}.translations: must be an object keyed by locale when set`);
+    } else {
+      Object.entries(level.translations).forEach(([locale, translation]) => {
+        validateTranslation(translation, `${path}.translations.${locale}`, issues);
+      });
+    }
+  }
+
+  if (!isRecord(level.scoring) || !isCount(level.scoring.points)) {
+    issues.push(`${path}.scoring.points: must be a non-negative integer`);
+  } else if (level.scoring.parSeconds !== undefined && (!isCount(level.scoring.parSeconds) || level.scoring.parSeconds === 0)) {
+    issues.push(`${path}.scoring.parSeconds: must be a positive integer when set`);
+  }
+
+  // مرحله‌ای که ساختارش درست است ولی هیچ تعداد جعبه‌ای حلش نمی‌کند هرگز تمام نمی‌شود
+  if (issues.length === issueCount && getSolvableBoxCounts(level as unknown as LevelDefinition).length === 0) {
+    const { min, max } = level.boxRange as { min: number; max: number };
+    issues.push(`${path}.boxRange: no box count from ${Math.max(min, level.presetBoxes as number)} to ${max} packs the level`);
+  }
+};
+
+const validateTranslation = (translation: unknown, path: string, issues: string[]) => {
+  if (!isRecord(translation)) {
+    issues.push(`${path}: must be an object`);
+    return;
+  }
+  if (translation.name !== undefined && !isNonEmptyString(translation.name)) {
+    issues.push(`${path}.name: must be a non-empty string when set`);
+  }
+  if (translation.messages !== undefined) {
+    if (!isRecord(translation.messages) || !Object.values(translation.messages).every(isNonEmptyString)) {
+      issues.push(`${path}.messages: must map message keys to non-empty strings`);
+    }
+  }
+  if (translation.dialogue !== undefined) {
+    const dialogue = translation.dialogue;
+    if (!isRecord(dialogue) || !Object.values(dialogue).every(lines => Array.isArray(lines) && lines.every(isNonEmptyString))) {
+      issues.push(`${path}.dialogue: must map dialogue keys to arrays of non-empty strings`);
+    }
+  }
+};
+
+// بررسی ساختار فایل مراحل؛ در صورت خطا همه مشکلات با هم گزارش می‌شوند
+export const validateLevelSet = (data: unknown): string[] => {
+  const issues: string[] = [];
+
+  if (!isRecord(data)) {
+    return ['level set: must be an object'];
+  }
+
+  if (data.version !== LEVEL_FORMAT_VERSION) {
+    issues.push(`version: unsupported level format ${String(data.version)} (expected ${LEVEL_FORMAT_VERSION})`);
+  }
+  if (!isNonEmptyString(data.id)) issues.push('id: must be a non-empty string');
+  if (!isNonEmptyString(data.name)) issues.push('name: must be a non-empty string');
+
+  if (!Array.isArray(data.levels) || data.levels.length === 0) {
+    issues.push('levels: must be a non-empty array');
+  } else {
+    const seenIds = new Set<string>();
+    data.levels.forEach((level, index) => {
+      validateLevel(level, `levels[${index}]`, issues);
+      if (isRecord(level) && isNonEmptyString(level.id)) {
+        if (seenIds.has(level.id)) issues.push(`levels[${index}].id: duplicate id "${level.id}"`);
+        seenIds.add(level.id);
+      }
+    });
+  }
+
+  return issues;
+};
+
+export const loadLevelSet = (data: unknown): LevelSet => {
+  const issues = validateLevelSet(data);
+  if (issues.length > 0) {
+    throw new LevelSetValidationError(issues);
+  }
+  return data as LevelSet;
+};
+
+const mapLines = (lines: string[], format: (text: string) => string) => lines.map(format);
+
+// مرحله با متن‌های زبان انتخاب‌شده؛ format روی همه متن‌ها اعمال می‌شود (مثلاً برای رقم‌های فارسی)
+export const localizeLevel = (
+  level: LevelDefinition,
+  locale: string,
+  format: (text: string) => string = text => text
+): LevelDefinition => {
+  const translation = level.translations?.[locale];
+  const messages: LevelMessages = { ...level.messages, ...translation?.messages };
+  const dialogue = level.dialogue && { ...level.dialogue, ...translation?.dialogue };
+  return {
+    ...level,
+    name: format(translation?.name ?? level.name),
+    messages: {
+      intro: format(messages.intro),
+      success: format(messages.success),
+      error: format(messages.error),
+      ...(messages.lesson ? { lesson: format(messages.lesson) } : {})
+    },
+    ...(dialogue
+      ? {
+          dialogue: {
+            intro: mapLines(dialogue.intro, format),
+            idle: mapLines(dialogue.idle, format),
+            hints: mapLines(dialogue.hints, format)
+          }
+        }
+      : {})
+  };
+};
+
+export const defaultLevelSet = loadLevelSet(defaultLevelsJson);
@@ -0,0 +1,73 @@
+import { createInitialState, gameReducer, validatePacking } from './engine';
+import { getChocolateCount, validateLevelSet } from './levels';
+import { createEndlessLevel, getEndlessLevels } from './modes';
+
+const SEED = 12345;
+
+describe('createEndlessLevel', () => {
+  it('builds valid levels for a long run', () => {
+    const levels = getEndlessLevels(30, SEED);
+    expect(validateLevelSet({ version: 1, id: 'endless', name: 'Endless', levels })).toEqual([]);
+  });
+
+  it('returns the same order for the same seed and index', () => {
+    expect(createEndlessLevel(4, SEED)).toEqual(createEndlessLevel(4, SEED));
+    expect(createEndlessLevel(4, SEED)).not.toEqual(createEndlessLevel(4, SEED + 1));
+  });
+
+  it('starts with simple sharing orders', () => {
+    expect(createEndlessLevel(0, SEED).concept).toBe('equal-sharing');
+    expect(createEndlessLevel(1, SEED).concept).toBe('equal-sharing');
+  });
+
+  it('requires the ordered box count so one box cannot hold everything', () => {
+    const sharingLevels = Array.from({ length: 60 }, (_, index) => createEndlessLevel(index, SEED))
+      .filter(level => level.concept !== 'equal-grouping');
+    expect(sharingLevels.some(level => level.concept === 'division-with-remainder')).toBe(true);
+
+    sharingLevels.forEach(level => {
+      expect(level.boxRange.min).toBe(level.boxRange.max);
+      expect(level.boxRange.min).toBeGreaterThan(1);
+
+      // همه شکلات‌ها در یک جعبه
+      let state = gameReducer(createInitialState(level), { type: 'ADD_BOX' }).state;
+      const boxId = state.boxes[0].id;
+      state.chocolates.forEach(chocolate => {
+        state = gameReducer(state, { type: 'DROP_CHOCOLATE', boxId, chocolateId: chocolate.id }).state;
+      });
+      expect(state.boxes[0].chocolates).toHaveLength(getChocolateCount(level));
+      expect(validatePacking(state).status).toBe('invalid');
+    });
+  });
+
+  it('requires as many boxes as the capacity needs in grouping orders', () => {
+    const groupingLevels = Array.from({ length: 60 }, (_, index) => createEndlessLevel(index, SEED))
+      .filter(level => level.concept === 'equal-grouping');
+    expect(groupingLevels.length).toBeGreaterThan(0);
+    groupingLevels.forEach(level => {
+      expect(level.boxRange.min).toBe(getChocolateCount(level) / level.boxCapacity!);
+    });
+  });
+
+  it('accepts the intended remainder packing', () => {
+    const level = Array.from({ length: 60 }, (_, index) => createEndlessLevel(index, SEED))
+      .find(candidate => candidate.concept === 'division-with-remainder')!;
+    const boxes = level.boxRange.min;
+    const count = getChocolateCount(level);
+    const perBox = Math.floor(count / boxes);
+
+    let state = createInitialState(level);
+    for (let i = 0; i < boxes; i++) state = gameReducer(state, { type: 'ADD_BOX' }).state;
+    state.chocolates.forEach((chocolate, index) => {
+      const box = Math.floor(index / perBox);
+      state = gameReducer(state, box < boxes
+        ? { type: 'DROP_CHOCOLATE', boxId: state.boxes[box].id, chocolateId: chocolate.id }
+        : { type: 'DROP_LEFTOVER', chocolateId: chocolate.id }).state;
+    });
+
+    expect(validatePacking(state)).toEqual({
+      status: 'valid',
+      division: { chocolates: count, boxes, chocolatesPerBox: perBox, remainder: count % boxes }
+    });
+  });
+});
@@ -0,0 +1,99 @@
+// Play modes besides the fixed story run: a timed challenge over the same levels and endless generated orders
+import { FLAVORS, Flavor, LevelConcept, LevelDefinition } from './levels';
+import { getParSeconds } from './scoring';
+import { Locale, MessageParams, translate } from '../i18n/catalog';
+import { MessageKey } from '../i18n/fa';
+
+export type GameMode = 'story' | 'timed' | 'endless';
+
+export const GAME_MODES: GameMode[] = ['story', 'timed', 'endless'];
+
+// چرا دور تمام شد: وقت سفارش تمام شد یا اشتباه‌ها از سقف گذشت
+export type RunEndReason = 'time' | 'mistakes';
+
+// هر تقسیم درست در مسابقه زمانی این چند ثانیه به ساعت اضافه می‌کند
+export const TIMED_BONUS_SECONDS = 15;
+// ثانیه‌هایی که موقع تمام کردن سفارش باقی مانده به امتیاز تبدیل می‌شوند
+export const TIMED_POINTS_PER_SECOND = 1;
+
+// وقت هر سفارش همان زمان مناسب مرحله است
+export const getTimedSeconds = (level: LevelDefinition): number => getParSeconds(level);
+
+export const ENDLESS_MAX_MISTAKES = 3;
+// امتیاز اضافه برای هر سفارش پشت سر هم بدون اشتباه
+export const ENDLESS_STREAK_BONUS = 10;
+
+const ENDLESS_START_CHOCOLATES = 4;
+const ENDLESS_GROWTH = 2;
+const ENDLESS_MAX_CHOCOLATES = 24;
+const ENDLESS_MAX_BOXES = 8;
+const ENDLESS_MAX_TARGET_BOXES = 6;
+// دو سفارش اول همیشه تقسیم ساده‌اند تا بچه گرم شود
+const ENDLESS_WARMUP_ORDERS = 2;
+
+type EndlessConcept = Extract<LevelConcept, 'equal-sharing' | 'equal-grouping' | 'division-with-remainder'>;
+
+const ENDLESS_CONCEPTS: EndlessConcept[] = ['equal-sharing', 'equal-grouping', 'division-with-remainder'];
+
+// عدد تصادفی تکرارپذیر (mulberry32) تا سفارش nام یک دور بی‌پایان با هر رندر همان بماند
+export const createRandom = (seed: number): (() => number) => {
+  let value = seed >>> 0;
+  return () => {
+    value = (value + 0x6D2B79F5) >>> 0;
+    let mixed = Math.imul(value ^ (value >>> 15), value | 1);
+    mixed ^= mixed + Math.imul(mixed ^ (mixed >>> 7), mixed | 61);
+    return ((mixed ^ (mixed >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T,>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+const localizedText = (key: MessageKey, params: MessageParams) => (locale: Locale) => translate(locale, key, params);
+
+// سفارش index ام (از صفر) یک دور بی‌پایان؛ تعداد شکلات‌ها با هر سفارش بیشتر می‌شود
+export const createEndlessLevel = (index: number, seed: number): LevelDefinition => {
+  const random = createRandom(seed + index * 7919);
+  const target = Math.min(ENDLESS_MAX_CHOCOLATES, ENDLESS_START_CHOCOLATES + index * ENDLESS_GROWTH);
+  const concept: EndlessConcept = index < ENDLESS_WARMUP_ORDERS ? 'equal-sharing' : pick(ENDLESS_CONCEPTS, random);
+  const maxBoxes = Math.min(ENDLESS_MAX_TARGET_BOXES, Math.floor(target / 2));
+  const boxes = 2 + Math.floor(random() * (maxBoxes - 1));
+  const perBox = Math.max(2, Math.round(target / boxes));
+  const remainder = concept === 'division-with-remainder' ? 1 + Math.floor(random() * (boxes - 1)) : 0;
+  const count = boxes * perBox + remainder;
+
+  const flavors = Object.fromEntries(FLAVORS.map(flavor => [flavor, 0])) as Record<Flavor, number>;
+  for (let i = 0; i < count; i++) flavors[pick(FLAVORS, random)] += 1;
+
+  const params = { number: index + 1, count, boxes, perBox, capacity: perBox, remainder };
+  const name = localizedText('endless.name', params);
+  const intro = localizedText(`endless.intro.${concept}`, params);
+  const success = localizedText('endless.success', params);
+  const error = localizedText('endless.error', params);
+  const hint = localizedText(`endless.hint.${concept}`, params);
+
+  return {
+    id: `endless-${index + 1}`,
+    name: name('fa'),
+    concept,
+    flavors,
+    presetBoxes: 0,
+    // تعداد جعبه‌های سفارش لازم است، نه هر تعدادی که شکلات‌ها را جا بدهد؛ در گروه‌بندی بچه خودش تعداد را پیدا می‌کند
+    boxRange: { min: boxes, max: concept === 'equal-grouping' ? ENDLESS_MAX_BOXES : boxes },
+    ...(concept === 'division-with-remainder' ? { allowRemainder: true } : {}),
+    ...(concept === 'equal-grouping' ? { boxCapacity: perBox } : {}),
+    messages: { intro: intro('fa'), success: success('fa'), error: error('fa') },
+    dialogue: { intro: [intro('fa')], idle: [], hints: [hint('fa')] },
+    translations: {
+      en: {
+        name: name('en'),
+        messages: { intro: intro('en'), success: success('en'), error: error('en') },
+        dialogue: { intro: [intro('en')], hints: [hint('en')] }
+      }
+    },
+    scoring: { points: 100 }
+  };
+};
+
+// فهرست سفارش‌ها تا یکی بعد از سفارش فعلی؛ صفحه بازی همیشه سفارش بعدی را دارد و دور آخر ندارد
+export const getEndlessLevels = (currentLevel: number, seed: number): LevelDefinition[] =>
+  Array.from({ length: currentLevel + 1 }, (_, index) => createEndlessLevel(index, seed));
@@ -0,0 +1,64 @@
+// Customer orders: which flavors each box must hold and which wrapping it needs
+import { FLAVORS, OrderLine, WrappingColor } from './levels';
+import type { BoxItem } from './engine';
+
+export type OrderProblem = 'flavor' | 'color';
+
+export interface OrderSlot {
+  line: number;
+  flavor: OrderLine['flavor'];
+  color?: WrappingColor;
+}
+
+export interface BoxMismatch {
+  boxId: string;
+  expected: OrderSlot | null;
+  problems: OrderProblem[];
+}
+
+// هر ردیف سفارش به تعداد جعبه‌هایش باز می‌شود
+export const expandOrder = (order: OrderLine[]): OrderSlot[] =>
+  order.flatMap((line, index) =>
+    Array.from({ length: line.boxes }, () => ({ line: index, flavor: line.flavor, color: line.color }))
+  );
+
+export const getOrderBoxCount = (order: OrderLine[]): number =>
+  order.reduce((sum, line) => sum + line.boxes, 0);
+
+const flavorMatches = (box: BoxItem, slot: OrderSlot): boolean => {
+  if (box.chocolates.length === 0) return false;
+  if (slot.flavor === 'mixed') {
+    return FLAVORS.every(flavor => box.chocolates.some(c => c.type === flavor));
+  }
+  return box.chocolates.every(c => c.type === slot.flavor);
+};
+
+const colorMatches = (box: BoxItem, slot: OrderSlot): boolean =>
+  !slot.color || box.color === slot.color;
+
+const findProblems = (box: BoxItem, slot: OrderSlot, checks: OrderProblem[]): OrderProblem[] =>
+  checks.filter(check => check === 'flavor' ? !flavorMatches(box, slot) : !colorMatches(box, slot));
+
+// جعبه‌ها به ترتیب دلخواه با ردیف‌های سفارش جفت می‌شوند؛ فقط جعبه‌هایی که جفت مناسب ندارند گزارش می‌شوند
+export const validateOrder = (boxes: BoxItem[], order: OrderLine[], checks: OrderProblem[]): BoxMismatch[] => {
+  const freeSlots = expandOrder(order);
+  const unmatched: BoxItem[] = [];
+
+  boxes.forEach(box => {
+    const slotIndex = freeSlots.findIndex(slot => findProblems(box, slot, checks).length === 0);
+    if (slotIndex === -1) {
+      unmatched.push(box);
+    } else {
+      freeSlots.splice(slotIndex, 1);
+    }
+  });
+
+  return unmatched.map(box => {
+    const expected = freeSlots.shift() || null;
+    return {
+      boxId: box.id,
+      expected,
+      problems: expected ? findProblems(box, expected, checks) : checks
+    };
+  });
+};
@@ -0,0 +1,120 @@
+import { createInitialState } from './engine';
+import { defaultLevelSet } from './levels';
+import {
+  SAVE_FORMAT_VERSION,
+  SaveData,
+  createEmptySave,
+  loadSave,
+  restoreBoard,
+  serializeBoard,
+  withHighScore,
+  writeSave
+} from './persistence';
+
+const STORAGE_KEY = 'chocolate-packing-game:save';
+
+const storeRaw = (save: unknown) => window.localStorage.setItem(STORAGE_KEY, JSON.stringify(save));
+
+const board = { levelId: 'level-2', boxes: [], chocolates: [], leftover: [], phase: 'packing', nextBoxId: 0, packingFailures: 1 };
+
+beforeEach(() => {
+  window.localStorage.clear();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('loadSave', () => {
+  it('starts empty without a save', () => {
+    expect(loadSave()).toMatchObject({ version: SAVE_FORMAT_VERSION, profiles: [], lastProfileId: null, progress: {} });
+  });
+
+  it('moves a version 1 save into a default profile', () => {
+    storeRaw({ version: 1, savedAt: 1000, levelSetId: 'default', totalScore: 250, run: { currentLevel: 3, score: 120 }, board });
+
+    const save = loadSave();
+    expect(save.version).toBe(SAVE_FORMAT_VERSION);
+    expect(save.profiles).toEqual([expect.objectContaining({ id: 'profile-1', createdAt: 1000 })]);
+    expect(save.lastProfileId).toBe('profile-1');
+    expect(save.progress['profile-1']).toMatchObject({
+      levelSetId: 'default',
+      totalScore: 250,
+      run: { currentLevel: 3, score: 120 },
+      board
+    });
+  });
+
+  it('adds attempt stats to a version 2 board without overwriting them', () => {
+    storeRaw({
+      version: 2,
+      savedAt: 1000,
+      profiles: [{ id: 'p', name: 'Sara', avatar: '🐱', createdAt: 1000 }],
+      lastProfileId: 'p',
+      progress: { p: { levelSetId: 'default', totalScore: 0, run: null, board: { ...board, hintsShown: 2 } } }
+    });
+
+    expect(loadSave().progress.p.board).toMatchObject({ hintsShown: 2, orderMistakes: 0, elapsedMs: 0 });
+  });
+
+  it('adds empty high scores to a version 3 save', () => {
+    storeRaw({
+      version: 3,
+      savedAt: 1000,
+      profiles: [],
+      lastProfileId: null,
+      progress: { p: { levelSetId: 'default', totalScore: 40, run: null, board: null } }
+    });
+
+    expect(loadSave().progress.p).toEqual({ levelSetId: 'default', totalScore: 40, run: null, board: null, highScores: {} });
+  });
+
+  it('discards saves it cannot read', () => {
+    storeRaw({ version: 1, levelSetId: 'default' });
+    expect(loadSave().profiles).toEqual([]);
+
+    storeRaw({ version: SAVE_FORMAT_VERSION + 1, profiles: [], progress: {} });
+    expect(loadSave().version).toBe(SAVE_FORMAT_VERSION);
+
+    window.localStorage.setItem(STORAGE_KEY, '{not json');
+    expect(loadSave().profiles).toEqual([]);
+  });
+
+  it('reads back what writeSave stored', () => {
+    const save: SaveData = {
+      ...createEmptySave(),
+      profiles: [{ id: 'p', name: 'Sara', avatar: '🐱', createdAt: 1000 }],
+      lastProfileId: 'p',
+      progress: { p: { levelSetId: 'default', totalScore: 40, run: { currentLevel: 2, score: 80 }, board: null, highScores: { timed: 300 } } }
+    };
+    writeSave(save);
+    expect(loadSave()).toEqual({ ...save, savedAt: expect.any(Number) });
+  });
+});
+
+describe('withHighScore', () => {
+  const progress = { levelSetId: 'default', totalScore: 0, run: null, board: null, highScores: { story: 200 } };
+
+  it('keeps only the best score of each mode', () => {
+    expect(withHighScore(progress, 'story', 150)).toBe(progress);
+    expect(withHighScore(progress, 'story', 250).highScores).toEqual({ story: 250 });
+    expect(withHighScore(progress, 'endless', 30).highScores).toEqual({ story: 200, endless: 30 });
+  });
+});
+
+describe('serializeBoard', () => {
+  it('restores the board with its elapsed time on the same level only', () => {
+    const [first, second] = defaultLevelSet.levels;
+    const state = { ...createInitialState(first), startedAt: Date.now() - 5000 };
+
+    const saved = serializeBoard(state);
+    expect(saved.levelId).toBe(first.id);
+    expect(saved.elapsedMs).toBeGreaterThanOrEqual(5000);
+
+    const restored = restoreBoard(saved, first);
+    expect(restored).toMatchObject({ level: first, chocolates: state.chocolates, boxes: state.boxes });
+    expect(Date.now() - restored!.startedAt).toBeGreaterThanOrEqual(5000);
+    expect(restoreBoard(saved, second)).toBeNull();
+  });
+});
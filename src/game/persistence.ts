@@ -0,0 +1,220 @@
+// Versioned local save of player profiles, their run progress and the in-progress board
+import { EngineState } from './engine';
+import { LevelDefinition } from './levels';
+import { GameMode } from './modes';
+
+export const SAVE_FORMAT_VERSION = 4;
+
+const STORAGE_KEY = 'chocolate-packing-game:save';
+
+export const PROFILE_AVATARS = ['🐱', '🐶', '🦊', '🐼', '🐰', '🦁', '🐸', '🐧', '🦄', '🐢'];
+
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  avatar: string;
+  createdAt: number;
+}
+
+export interface RunProgress {
+  currentLevel: number;
+  score: number;
+}
+
+// وضعیت صفحه بدون تعریف مرحله؛ مرحله هنگام بازیابی از روی شناسه پیدا می‌شود.
+// به‌جای زمان شروع، زمان صرف‌شده ذخیره می‌شود تا مدتی که بازی بسته بوده حساب نشود
+export type SavedBoard = Omit<EngineState, 'level' | 'startedAt'> & { levelId: string; elapsedMs: number };
+
+export interface ProfileProgress {
+  levelSetId: string;
+  totalScore: number;
+  run: RunProgress | null;
+  board: SavedBoard | null;
+  // بهترین امتیاز یک دور کامل در هر حالت بازی
+  highScores: Partial<Record<GameMode, number>>;
+}
+
+export interface SaveData {
+  version: number;
+  savedAt: number;
+  profiles: PlayerProfile[];
+  lastProfileId: string | null;
+  progress: Record<string, ProfileProgress>;
+}
+
+export const createEmptySave = (): SaveData => ({
+  version: SAVE_FORMAT_VERSION,
+  savedAt: Date.now(),
+  profiles: [],
+  lastProfileId: null,
+  progress: {}
+});
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// ذخیره‌ای که فقط شماره نسخه‌اش معلوم است؛ بقیه فیلدها را مهاجرت همان نسخه بررسی می‌کند
+type VersionedSave = UnknownRecord & { version: number };
+
+// نسخه 1: یک بازیکن و پیشرفتش مستقیم در ریشه ذخیره
+type SaveV1 = VersionedSave & { version: 1; savedAt: number };
+
+// نسخه‌های 2 و بعد: پیشرفت هر پروفایل زیر شناسه‌اش
+type SaveWithProgress = VersionedSave & { progress: UnknownRecord };
+
+const isVersionedSave = (value: unknown): value is VersionedSave =>
+  isRecord(value) && typeof value.version === 'number';
+
+const isSaveV1 = (save: VersionedSave): save is SaveV1 =>
+  save.version === 1 && typeof save.savedAt === 'number';
+
+const hasProgress = (save: VersionedSave): save is SaveWithProgress =>
+  isRecord(save.progress);
+
+const mapProgress = (
+  save: SaveWithProgress,
+  version: number,
+  update: (progress: UnknownRecord) => UnknownRecord
+): SaveWithProgress => ({
+  ...save,
+  version,
+  progress: Object.fromEntries(Object.entries(save.progress).map(([profileId, progress]) => [
+    profileId,
+    isRecord(progress) ? update(progress) : progress
+  ]))
+});
+
+// هر مهاجرت یک ذخیره از نسخه n را به نسخه n + 1 می‌برد؛ ذخیره‌ای که شکلش نمی‌خواند null می‌شود
+const migrations: Record<number, (save: VersionedSave) => VersionedSave | null> = {
+  // نسخه 1 فقط یک بازیکن داشت؛ پیشرفتش به یک پروفایل پیش‌فرض منتقل می‌شود
+  1: save => {
+    if (!isSaveV1(save)) return null;
+    const { levelSetId, totalScore, run, board, savedAt } = save;
+    const profile: PlayerProfile = { id: 'profile-1', name: 'بازیکن', avatar: PROFILE_AVATARS[0], createdAt: savedAt };
+    return {
+      version: 2,
+      savedAt,
+      profiles: [profile],
+      lastProfileId: profile.id,
+      progress: { [profile.id]: { levelSetId, totalScore, run, board } }
+    };
+  },
+  // نسخه 3 آمار تلاش‌ها را برای امتیازدهی در صفحه ذخیره می‌کند
+  2: save => hasProgress(save)
+    ? mapProgress(save, 3, progress => isRecord(progress.board)
+        ? { ...progress, board: { hintsShown: 0, orderMistakes: 0, elapsedMs: 0, ...progress.board } }
+        : progress)
+    : null,
+  // نسخه 4 بهترین امتیاز هر حالت بازی را نگه می‌دارد
+  3: save => hasProgress(save) ? mapProgress(save, 4, progress => ({ ...progress, highScores: {} })) : null
+};
+
+const migrate = (save: unknown): VersionedSave | null => {
+  let current = isVersionedSave(save) ? save : null;
+  while (current && current.version < SAVE_FORMAT_VERSION) {
+    const step = migrations[current.version];
+    current = step ? step(current) : null;
+  }
+  return current && current.version === SAVE_FORMAT_VERSION ? current : null;
+};
+
+const isValidRun = (run: unknown): boolean =>
+  run === null || (isRecord(run) && typeof run.currentLevel === 'number' && typeof run.score === 'number');
+
+const isValidBoard = (board: unknown): boolean =>
+  board === null || (isRecord(board) && typeof board.levelId === 'string' && Array.isArray(board.boxes));
+
+const isValidProgress = (progress: unknown): progress is ProfileProgress =>
+  isRecord(progress)
+  && typeof progress.levelSetId === 'string'
+  && typeof progress.totalScore === 'number'
+  && isValidRun(progress.run)
+  && isValidBoard(progress.board)
+  && isRecord(progress.highScores);
+
+const isValidProfile = (profile: unknown): profile is PlayerProfile =>
+  isRecord(profile) && typeof profile.id === 'string' && typeof profile.name === 'string';
+
+const isValidSave = (save: VersionedSave): save is VersionedSave & SaveData =>
+  Array.isArray(save.profiles)
+  && save.profiles.every(isValidProfile)
+  && isRecord(save.progress)
+  && Object.values(save.progress).every(isValidProgress);
+
+const getStorage = (): Storage | null => {
+  try {
+    return window.localStorage;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const loadSave = (): SaveData => {
+  const storage = getStorage();
+  if (!storage) return createEmptySave();
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (!raw) return createEmptySave();
+    const parsed: unknown = JSON.parse(raw);
+    const save = migrate(parsed);
+    return save && isValidSave(save) ? save : createEmptySave();
+  } catch (error) {
+    console.warn('Could not read saved game:', error);
+    return createEmptySave();
+  }
+};
+
+export const writeSave = (save: SaveData) => {
+  const storage = getStorage();
+  if (!storage) return;
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify({ ...save, version: SAVE_FORMAT_VERSION, savedAt: Date.now() }));
+  } catch (error) {
+    console.warn('Could not save game:', error);
+  }
+};
+
+export const addProfile = (save: SaveData, name: string, avatar: string): { save: SaveData; profile: PlayerProfile } => {
+  const profile: PlayerProfile = {
+    id: `profile-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+    name: name.trim(),
+    avatar,
+    createdAt: Date.now()
+  };
+  return {
+    save: { ...save, profiles: [...save.profiles, profile], lastProfileId: profile.id },
+    profile
+  };
+};
+
+export const selectProfile = (save: SaveData, profileId: string): SaveData => ({
+  ...save,
+  lastProfileId: profileId
+});
+
+// پیشرفت یک پروفایل فقط برای همان مجموعه مراحلی که با آن بازی شده معتبر است
+export const getProfileProgress = (save: SaveData, profileId: string | null, levelSetId: string): ProfileProgress | null => {
+  const progress = profileId ? save.progress[profileId] : undefined;
+  return progress && progress.levelSetId === levelSetId ? progress : null;
+};
+
+export const setProfileProgress = (save: SaveData, profileId: string, progress: ProfileProgress): SaveData => ({
+  ...save,
+  progress: { ...save.progress, [profileId]: progress }
+});
+
+export const withHighScore = (progress: ProfileProgress, mode: GameMode, score: number): ProfileProgress =>
+  score > (progress.highScores[mode] ?? 0)
+    ? { ...progress, highScores: { ...progress.highScores, [mode]: score } }
+    : progress;
+
+export const serializeBoard = ({ level, startedAt, ...board }: EngineState): SavedBoard => ({
+  ...board,
+  levelId: level.id,
+  elapsedMs: Math.max(0, Date.now() - startedAt)
+});
+
+export const restoreBoard = ({ levelId, elapsedMs, ...board }: SavedBoard, level: LevelDefinition): EngineState | null =>
+  levelId === level.id ? { ...board, level, startedAt: Date.now() - elapsedMs } : null;
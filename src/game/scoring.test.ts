@@ -0,0 +1,65 @@
+import { LevelDefinition } from './levels';
+import { LevelPerformance, getParSeconds, getStars, scoreLevel } from './scoring';
+
+const level: LevelDefinition = {
+  id: 'test-level',
+  name: 'Test',
+  concept: 'equal-sharing',
+  flavors: { cocoa: 2, orange: 2, strawberry: 2 },
+  presetBoxes: 0,
+  boxRange: { min: 1, max: 8 },
+  messages: { intro: 'intro', success: 'success', error: 'error' },
+  scoring: { points: 100, parSeconds: 60 }
+};
+
+const perfect: LevelPerformance = { packingFailures: 0, hintsShown: 0, orderMistakes: 0, elapsedMs: 30000 };
+
+describe('scoreLevel', () => {
+  it('gives full points and three stars for a clean, quick solve', () => {
+    const score = scoreLevel(level, perfect);
+    expect(score.points).toBe(100);
+    expect(score.stars).toBe(3);
+    expect(score.deductions.every(deduction => deduction.points === 0)).toBe(true);
+  });
+
+  it('deducts for failures, hints and order mistakes', () => {
+    const score = scoreLevel(level, { ...perfect, packingFailures: 2, hintsShown: 1, orderMistakes: 1 });
+    expect(score.deductions).toEqual([
+      { factor: 'failures', count: 2, points: 30 },
+      { factor: 'hints', count: 1, points: 10 },
+      { factor: 'accuracy', count: 1, points: 10 },
+      { factor: 'time', count: 0, points: 0 }
+    ]);
+    expect(score.points).toBe(50);
+    expect(score.stars).toBe(1);
+  });
+
+  it('deducts for time over par, up to double the par', () => {
+    expect(scoreLevel(level, { ...perfect, elapsedMs: 90000 }).deductions[3]).toEqual({ factor: 'time', count: 30, points: 10 });
+    expect(scoreLevel(level, { ...perfect, elapsedMs: 600000 }).deductions[3]).toMatchObject({ points: 20 });
+  });
+
+  it('caps each factor and never drops below the minimum share', () => {
+    const score = scoreLevel(level, { packingFailures: 10, hintsShown: 10, orderMistakes: 10, elapsedMs: 600000 });
+    expect(score.deductions.map(deduction => deduction.points)).toEqual([45, 20, 30, 20]);
+    expect(score.points).toBe(10);
+    expect(score.stars).toBe(1);
+  });
+});
+
+describe('getParSeconds', () => {
+  it('falls back to ten seconds per chocolate', () => {
+    expect(getParSeconds(level)).toBe(60);
+    expect(getParSeconds({ ...level, scoring: { points: 100 } })).toBe(60);
+    expect(getParSeconds({ ...level, flavors: { cocoa: 4, orange: 0, strawberry: 0 }, scoring: { points: 100 } })).toBe(40);
+  });
+});
+
+describe('getStars', () => {
+  it('maps the share of points to stars', () => {
+    expect(getStars(90, 100)).toBe(3);
+    expect(getStars(89, 100)).toBe(2);
+    expect(getStars(60, 100)).toBe(2);
+    expect(getStars(59, 100)).toBe(1);
+  });
+});
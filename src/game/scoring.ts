@@ -0,0 +1,80 @@
+// Performance-based level score: deductions for failed attempts, hints, order mistakes and slow play
+import { LevelDefinition, getChocolateCount } from './levels';
+
+export type StarRating = 1 | 2 | 3;
+
+export type ScoreFactor = 'failures' | 'hints' | 'accuracy' | 'time';
+
+export interface LevelPerformance {
+  packingFailures: number;
+  hintsShown: number;
+  // جعبه‌هایی که طعم یا رنگشان با سفارش مشتری نمی‌خواند
+  orderMistakes: number;
+  elapsedMs: number;
+}
+
+export interface ScoreDeduction {
+  factor: ScoreFactor;
+  // تعداد دفعات (یا ثانیه‌های اضافه برای زمان)
+  count: number;
+  points: number;
+}
+
+export interface LevelScore {
+  maxPoints: number;
+  points: number;
+  stars: StarRating;
+  deductions: ScoreDeduction[];
+  performance: LevelPerformance;
+}
+
+// سهم هر بار خطا از امتیاز کامل مرحله و سقف کسر برای هر عامل
+const PENALTIES: Record<ScoreFactor, { each: number; max: number }> = {
+  failures: { each: 0.15, max: 0.45 },
+  hints: { each: 0.1, max: 0.2 },
+  accuracy: { each: 0.1, max: 0.3 },
+  time: { each: 0, max: 0.2 }
+};
+
+const MIN_SHARE = 0.1;
+const THREE_STARS = 0.9;
+const TWO_STARS = 0.6;
+
+// زمان مناسب مرحله اگر در فایل مراحل مشخص نشده باشد
+const SECONDS_PER_CHOCOLATE = 10;
+
+export const getParSeconds = (level: LevelDefinition): number =>
+  level.scoring.parSeconds ?? getChocolateCount(level) * SECONDS_PER_CHOCOLATE;
+
+const deduct = (factor: ScoreFactor, count: number, maxPoints: number): ScoreDeduction => {
+  const { each, max } = PENALTIES[factor];
+  return { factor, count, points: Math.round(Math.min(count * each, max) * maxPoints) };
+};
+
+// زمان تا سقف زمان مناسب کسری ندارد و بعد از دو برابر آن به بیشترین کسر می‌رسد
+const deductTime = (elapsedMs: number, parSeconds: number, maxPoints: number): ScoreDeduction => {
+  const overSeconds = Math.max(0, Math.round(elapsedMs / 1000 - parSeconds));
+  const share = Math.min(overSeconds / parSeconds, 1) * PENALTIES.time.max;
+  return { factor: 'time', count: overSeconds, points: Math.round(share * maxPoints) };
+};
+
+export const getStars = (points: number, maxPoints: number): StarRating => {
+  const share = maxPoints > 0 ? points / maxPoints : 1;
+  if (share >= THREE_STARS) return 3;
+  if (share >= TWO_STARS) return 2;
+  return 1;
+};
+
+export const scoreLevel = (level: LevelDefinition, performance: LevelPerformance): LevelScore => {
+  const maxPoints = level.scoring.points;
+  const deductions = [
+    deduct('failures', performance.packingFailures, maxPoints),
+    deduct('hints', performance.hintsShown, maxPoints),
+    deduct('accuracy', performance.orderMistakes, maxPoints),
+    deductTime(performance.elapsedMs, getParSeconds(level), maxPoints)
+  ];
+  const lost = deductions.reduce((sum, item) => sum + item.points, 0);
+  // تمام کردن مرحله همیشه کمی امتیاز و دست‌کم یک ستاره دارد
+  const points = Math.max(maxPoints - lost, Math.round(maxPoints * MIN_SHARE));
+  return { maxPoints, points, stars: getStars(points, maxPoints), deductions, performance };
+};
@@ -0,0 +1,85 @@
+import { act, renderHook } from '@testing-library/react';
+import { EngineState } from './engine';
+import { LevelDefinition } from './levels';
+import { useGameEngine } from './useGameEngine';
+
+const makeLevel = (flavors: LevelDefinition['flavors']): LevelDefinition => ({
+  id: 'test-level',
+  name: 'Test',
+  concept: 'equal-sharing',
+  flavors,
+  presetBoxes: 0,
+  boxRange: { min: 1, max: 8 },
+  messages: { intro: 'intro', success: 'success', error: 'error' },
+  scoring: { points: 100 }
+});
+
+describe('useGameEngine', () => {
+  it('steps back and forward through board changes', () => {
+    const { result } = renderHook(() => useGameEngine(makeLevel({ cocoa: 2, orange: 2, strawberry: 2 })));
+    expect(result.current.canUndo).toBe(false);
+
+    act(() => {
+      result.current.dispatch({ type: 'ADD_BOX' });
+      result.current.dispatch({ type: 'ADD_BOX' });
+    });
+    expect(result.current.state.boxes).toHaveLength(2);
+    expect(result.current.canUndo).toBe(true);
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(result.current.state.boxes).toHaveLength(1);
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => {
+      result.current.redo();
+    });
+    expect(result.current.state.boxes).toHaveLength(2);
+    expect(result.current.canRedo).toBe(false);
+
+    // حرکت تازه بعد از برگشت، آینده را پاک می‌کند
+    act(() => {
+      result.current.undo();
+      result.current.dispatch({ type: 'ADD_BOX' });
+    });
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('keeps failures when undoing past a wrong split', () => {
+    const { result } = renderHook(() => useGameEngine(makeLevel({ cocoa: 2, orange: 1, strawberry: 0 })));
+    act(() => {
+      result.current.dispatch({ type: 'ADD_BOX' });
+      result.current.dispatch({ type: 'ADD_BOX' });
+      const [first, second, third] = result.current.state.chocolates;
+      result.current.dispatch({ type: 'DROP_CHOCOLATE', boxId: 'box-0', chocolateId: first.id });
+      result.current.dispatch({ type: 'DROP_CHOCOLATE', boxId: 'box-0', chocolateId: second.id });
+      result.current.dispatch({ type: 'DROP_CHOCOLATE', boxId: 'box-1', chocolateId: third.id });
+    });
+    expect(result.current.state.packingFailures).toBe(1);
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(result.current.state.chocolates.filter(c => c.placed)).toHaveLength(2);
+    expect(result.current.state.packingFailures).toBe(1);
+  });
+
+  it('cannot undo a completed level', () => {
+    const { result } = renderHook(() => useGameEngine(makeLevel({ cocoa: 1, orange: 0, strawberry: 0 })));
+    act(() => {
+      result.current.dispatch({ type: 'ADD_BOX' });
+      result.current.dispatch({ type: 'DROP_CHOCOLATE', boxId: 'box-0', chocolateId: result.current.state.chocolates[0].id });
+      result.current.dispatch({ type: 'COLOR_BOX', boxId: 'box-0', color: 'brown' });
+    });
+    expect(result.current.state.phase).toBe('completed');
+    expect(result.current.canUndo).toBe(false);
+
+    let restored: EngineState | null = null;
+    act(() => {
+      restored = result.current.undo();
+    });
+    expect(restored).toBeNull();
+    expect(result.current.state.phase).toBe('completed');
+  });
+});
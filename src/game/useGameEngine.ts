@@ -0,0 +1,80 @@
+import { useCallback, useRef, useState } from 'react';
+import { EngineAction, EngineEvent, EngineState, carryAttemptStats, createInitialState, gameReducer } from './engine';
+import { LevelDefinition } from './levels';
+
+const HISTORY_LIMIT = 100;
+
+interface EngineHistory {
+  past: EngineState[];
+  present: EngineState;
+  future: EngineState[];
+}
+
+// مرحله تمام‌شده قابل برگشت نیست چون امتیازش ثبت شده است
+const canStepBack = (history: EngineHistory) =>
+  history.past.length > 0 && history.present.phase !== 'completed';
+
+// React binding for the engine: dispatch applies an action synchronously and returns its events.
+// Every board change is recorded so undo/redo can step through the solution.
+export const useGameEngine = (level: LevelDefinition, initialState?: EngineState | null) => {
+  const [history, setHistory] = useState<EngineHistory>(() => ({
+    past: [],
+    present: initialState || createInitialState(level),
+    future: []
+  }));
+  const historyRef = useRef(history);
+
+  const commit = (next: EngineHistory) => {
+    historyRef.current = next;
+    setHistory(next);
+  };
+
+  const dispatch = useCallback((action: EngineAction): EngineEvent[] => {
+    const current = historyRef.current;
+    const result = gameReducer(current.present, action);
+    if (action.type === 'START_LEVEL') {
+      commit({ past: [], present: result.state, future: [] });
+    } else if (result.state !== current.present) {
+      commit({
+        past: [...current.past, current.present].slice(-HISTORY_LIMIT),
+        present: result.state,
+        future: []
+      });
+    }
+    return result.events;
+  }, []);
+
+  const undo = useCallback((): EngineState | null => {
+    const current = historyRef.current;
+    if (!canStepBack(current)) return null;
+    const previous = carryAttemptStats(current.present, current.past[current.past.length - 1]);
+    commit({
+      past: current.past.slice(0, -1),
+      present: previous,
+      future: [current.present, ...current.future]
+    });
+    return previous;
+  }, []);
+
+  const redo = useCallback((): EngineState | null => {
+    const current = historyRef.current;
+    if (current.future.length === 0) return null;
+    const [upcoming, ...rest] = current.future;
+    const next = carryAttemptStats(current.present, upcoming);
+    commit({
+      past: [...current.past, current.present],
+      present: next,
+      future: rest
+    });
+    return next;
+  }, []);
+
+  return {
+    state: history.present,
+    dispatch,
+    undo,
+    redo,
+    canUndo: canStepBack(history),
+    canRedo: history.future.length > 0
+  };
+};
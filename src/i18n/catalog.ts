@@ -0,0 +1,40 @@
+// Message lookup and number formatting without React or audio, so the game layer can localize its own text
+import fa, { Catalog, MessageKey } from './fa';
+import en from './en';
+
+export type Locale = 'fa' | 'en';
+
+export interface LocaleInfo {
+  dir: 'rtl' | 'ltr';
+  // زبان صدای متن‌خوان و قالب اعداد
+  speechLang: string;
+  numberLocale: string;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  fa: { dir: 'rtl', speechLang: 'fa-IR', numberLocale: 'fa-IR' },
+  en: { dir: 'ltr', speechLang: 'en-US', numberLocale: 'en-US' }
+};
+
+const CATALOGS: Record<Locale, Catalog> = { fa, en };
+
+export type MessageParams = Record<string, string | number>;
+
+const PERSIAN_DIGITS = '۰۱۲۳۴۵۶۷۸۹';
+
+export const formatNumber = (value: number, locale: Locale): string =>
+  new Intl.NumberFormat(LOCALES[locale].numberLocale, { useGrouping: false }).format(value);
+
+// رقم‌های داخل متن‌های آماده (مثل پیام‌های فایل مراحل) در فارسی به رقم فارسی تبدیل می‌شوند
+export const localizeDigits = (text: string, locale: Locale): string =>
+  locale === 'fa' ? text.replace(/[0-9]/g, digit => PERSIAN_DIGITS[Number(digit)]) : text;
+
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const catalog = CATALOGS[locale];
+  const template = (params.count === 1 && catalog[`${key}_one`]) || catalog[key] || fa[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value, locale) : value;
+  });
+};
@@ -0,0 +1,208 @@
+import { Catalog } from './fa';
+
+const en: Catalog = {
+  'app.title': 'Chocolate Packing Game 🍫',
+  'language.switch': 'فارسی',
+  'language.title': 'Language 🌐',
+
+  'flavor.cocoa': 'cocoa',
+  'flavor.orange': 'orange',
+  'flavor.strawberry': 'strawberry',
+  'flavor.mixed': 'mixed (one of each flavor)',
+  'color.brown': 'brown',
+  'color.orange': 'orange',
+  'color.red': 'red',
+  'problem.flavor': 'flavor',
+  'problem.color': 'color',
+  'list.separator': ', ',
+  'list.and': ' and ',
+
+  'order.title': "Customer's order 📝",
+  'order.line': '{count} {flavor} boxes',
+  'order.line_one': '{count} {flavor} box',
+  'order.lineWithColor': '{count} {flavor} boxes with {color} wrapping',
+  'order.lineWithColor_one': '{count} {flavor} box with {color} wrapping',
+
+  'hint.noEvenSplit': "{error} The chocolates can't be shared equally between {boxes} boxes.",
+  'hint.changeBoxCount': "Change the number of boxes. This many boxes can't share them equally.",
+  'hint.tryBoxCount': 'Change the number of boxes. Try {boxes} boxes!',
+  'hint.overUnder': '{error} The red boxes have too many chocolates and the yellow boxes too few.',
+  'hint.leftover': ' and {count} chocolates stay on the leftover tray',
+  'hint.leftover_one': ' and {count} chocolate stays on the leftover tray',
+  'hint.perBox': 'Each box needs {perBox} chocolates{leftover}.',
+  'hint.fixMarked': 'Just fix the {fixes} marked boxes: exactly {perBox} chocolates in each box{leftover}.',
+  'hint.boxFull': 'This box is full! Each box holds only {capacity} chocolates. Add another box.',
+  'hint.flavorMismatch': "The chocolates are shared equally, but some boxes don't match the flavors in the order. Fix the marked boxes.",
+  'hint.colorMismatch': "Some wrappings don't match the customer's order. Rewrap the marked boxes.",
+
+  'score.failures': 'Wrong splits',
+  'score.hints': 'Hints',
+  'score.accuracy': 'Boxes with the wrong flavor or color',
+  'score.time': 'Extra time',
+  'score.unit.times': '{count} times',
+  'score.unit.times_one': '{count} time',
+  'score.unit.boxes': '{count}',
+  'score.unit.seconds': '{count} seconds',
+  'score.unit.seconds_one': '{count} second',
+  'score.stars': '{stars} of {max} stars',
+  'score.levelPoints': 'Level score: {points} of {max}',
+
+  'chocolate.label': '{flavor} chocolate',
+  'warehouse.title': 'Chocolate warehouse 🍫',
+  'warehouse.label': 'Chocolate warehouse',
+  'wrapping.label': '{color} wrapping',
+  'box.label': 'Box {index}',
+  'box.chocolateCount': '{count} chocolates',
+  'box.chocolateCount_one': '{count} chocolate',
+  'box.capacityCount': '{count} of {capacity} chocolates',
+  'box.mistakeIn': 'wrong {problems}',
+  'box.remove': 'Remove box',
+  'box.removeNumbered': 'Remove box {index}',
+  'box.dropChocolate': 'Drag chocolates here',
+  'box.dropColor': 'Drag a color here',
+  'leftover.name': 'Leftover tray',
+  'leftover.title': 'Leftover tray 🍽️',
+  'leftover.placeholder': 'Put the extra chocolates here',
+
+  'announce.kept': '{chocolate} stays where it is',
+  'announce.picked': '{chocolate} picked up. Now choose a box',
+  'announce.pickedFromBox': '{chocolate} picked up. Choose another box or the warehouse',
+  'announce.colorPicked': '{color} wrapping selected. Now choose a box',
+  'announce.chooseChocolate': 'Choose a chocolate first',
+  'announce.chooseColor': 'Choose a color first',
+  'announce.cancelled': 'Selection cancelled',
+  'announce.boxCount': 'Box {index}: {count} chocolates',
+  'announce.boxCount_one': 'Box {index}: {count} chocolate',
+  'announce.warehouseCount': 'Warehouse: {count} chocolates',
+  'announce.warehouseCount_one': 'Warehouse: {count} chocolate',
+  'announce.leftoverCount': 'Leftover tray: {count} chocolates',
+  'announce.leftoverCount_one': 'Leftover tray: {count} chocolate',
+
+  'game.header': 'Level {level} - score this round: {score}',
+  'game.completed': 'Oh! How pretty! Every box looks like a rainbow! 🌈✨',
+  'game.completedVoice': 'Oh! How pretty! Every box looks like a rainbow!',
+  'history.undo': '↶ Undo',
+  'history.undoTitle': 'Undo (Ctrl+Z)',
+  'history.redo': 'Redo ↷',
+  'history.redoTitle': 'Redo (Ctrl+Shift+Z)',
+  'completion.congrats': '🎉 Congratulations! 🎉',
+  'completion.nextOrder': 'We got an order from another party!',
+  'completion.goToWork': "Let's get to work",
+  'completion.allPacked': 'Well done, you packed and wrapped every order',
+  'completion.totalScore': 'Your total score:',
+  'completion.restart': 'Play again',
+  'coloring.title': 'Wrap the boxes 🎨',
+  'coloring.groupLabel': 'Wrapping color',
+  'boxes.title': 'Boxes 📦',
+  'boxes.add': 'Add a box',
+  'boxes.preset': 'The boxes are already set out in this level',
+  'boxes.clear': 'Clear the boxes',
+  'boxes.capacity': 'Each box holds exactly {capacity} chocolates. How many boxes do you need?',
+
+  'npc.show': 'Show the guide',
+  'npc.next': 'Next ▶',
+  'npc.close': 'Close the guide',
+  'npc.coloringNudge1': 'First tap a color, then tap a box.',
+  'npc.coloringNudge2': 'The boxes are waiting for their wrapping!',
+
+  'audio.open': 'Sound settings',
+  'audio.title': 'Sound 🔊',
+  'audio.master': 'All sounds',
+  'audio.sfx': 'Effects',
+  'audio.music': 'Music',
+  'audio.voice': 'Voice',
+  'audio.mute': 'Mute {channel}',
+  'audio.reset': 'Reset to defaults',
+  'audio.close': 'Close',
+
+  'login.greeting': 'Hi {name}',
+  'login.friend': 'friend',
+  'login.intro': "We're going to pack and wrap the chocolates people order for school parties and birthdays",
+  'login.ready': 'Ready?',
+  'login.whoIsPlaying': "Who's playing?",
+  'login.newPlayer': 'New player',
+  'login.whatsYourName': "What's your name?",
+  'login.namePlaceholder': 'Player name',
+  'login.chooseAvatar': 'Choose an avatar',
+  'login.create': 'Create',
+  'login.cancel': 'Cancel',
+  'login.continue': 'Continue last game',
+  'login.start': "Let's get to work",
+  'login.otherModes': 'Or try a challenge:',
+  'login.highScore': 'Best score: {score}',
+  'login.teacherSettings': '⚙️ Teacher settings',
+
+  'settings.title': 'Teacher settings ⚙️',
+  'settings.reportTitle': 'Learning report 📊',
+  'settings.summary': '{events} events recorded from {sessions} sessions and {profiles} players',
+  'settings.exportCsv': 'Export CSV',
+  'settings.exportJson': 'Export JSON',
+  'settings.clear': 'Clear the report',
+  'settings.confirmClear': 'Delete all recorded events?',
+  'settings.back': 'Back',
+
+  'pixi.loadError': 'The game failed to load. Please refresh the page.',
+  'pixi.level': 'Level {level}',
+  'pixi.errorTitle': 'The game failed to load',
+  'pixi.retry': 'Try again',
+  'pixi.reload': 'Reload the page',
+  'pixi.loading': 'Loading the game...',
+
+  'boardView.title': 'Game view 🖥️',
+  'boardView.description': 'The board works best with screen readers and older devices; the stage has livelier pictures.',
+  'boardView.toPixi': '🎮 Play on the stage',
+  'boardView.toDom': '📋 Play on the board',
+
+  'minigame.skip': 'Skip ⏭️',
+  'minigame.continue': 'On to the next order',
+  'minigame.timeLeft': '⏱️ {seconds} seconds',
+  'minigame.catch.title': '🍫 Catch the chocolates!',
+  'minigame.catch.intro': 'Chocolates are falling from the sky! Catch as many as you can!',
+  'minigame.catch.caught': 'Caught: {count}',
+  'minigame.catch.field': 'Falling chocolates',
+  'minigame.catch.chocolate': '{flavor} chocolate',
+  'minigame.catch.result': 'Well done! You caught {count} chocolates and won {points} bonus points!',
+  'minigame.catch.result_one': 'Well done! You caught {count} chocolate and won {points} bonus points!',
+  'minigame.count.title': '🎁 Count the boxes!',
+  'minigame.count.intro': 'How many boxes are on the table? Pick the right number!',
+  'minigame.count.round': 'Round {round} of {total}',
+  'minigame.count.box': 'box',
+  'minigame.count.right': "That's right! There are {count} boxes! 🎉",
+  'minigame.count.wrong': 'So close! There are {count} boxes.',
+  'minigame.count.next': 'Next round',
+  'minigame.count.finish': 'See my score',
+  'minigame.count.result': 'You counted {count} of {total} right and won {points} bonus points!',
+
+  'mode.timed': '⏱️ Race the clock',
+  'mode.endless': '♾️ Endless orders',
+  'mode.timeLeft': '⏱️ {seconds} seconds',
+  'mode.bonusTime': 'You won {seconds} bonus seconds! ⏱️',
+  'mode.timeBonusPoints': 'Time left bonus: {points} points',
+  'mode.streak': '🔥 {count} orders in a row',
+  'mode.streak_one': '🔥 {count} order in a row',
+  'mode.streakBonusPoints': 'Streak bonus: {points} points',
+  'mode.mistakesLeft': '❤️ {count} tries left',
+  'mode.mistakesLeft_one': '❤️ {count} try left',
+  'mode.timeUp': "Time's up! ⏰",
+  'mode.outOfMistakes': 'No tries left!',
+  'mode.ordersDone': 'You finished {count} orders',
+  'mode.ordersDone_one': 'You finished {count} order',
+  'mode.bestStreak': 'Longest streak: {count} orders in a row',
+  'mode.bestStreak_one': 'Longest streak: {count} order in a row',
+  'mode.runScore': 'Score this round: {score}',
+  'mode.newRecord': '🏆 New record!',
+  'mode.highScore': 'Best score: {score}',
+  'mode.menu': 'Back to the start',
+
+  'endless.name': 'Order {number}',
+  'endless.intro.equal-sharing': 'We have {count} chocolates. Share them equally between {boxes} boxes.',
+  'endless.intro.equal-grouping': 'Each box holds only {capacity} chocolates. Pack all {count} chocolates.',
+  'endless.intro.division-with-remainder': 'Share {count} chocolates equally between {boxes} boxes and put the extra ones on the leftover tray.',
+  'endless.success': 'Well done, that split is right! Now wrap the boxes.',
+  'endless.error': "That split isn't right, try again!",
+  'endless.hint.equal-sharing': '{count} chocolates fit in {boxes} boxes of {perBox}.',
+  'endless.hint.equal-grouping': 'Count the {count} chocolates in groups of {capacity}: you need {boxes} boxes.',
+  'endless.hint.division-with-remainder': 'Put {perBox} chocolates in each box and {remainder} will be left over.'
+};
+
+export default en;
@@ -0,0 +1,198 @@
+// Persian catalog; the source of truth for message keys
+const fa = {
+  'app.title': 'بازی بسته‌بندی شکلات 🍫',
+  'language.switch': 'English',
+  'language.title': 'زبان 🌐',
+
+  'flavor.cocoa': 'شکلاتی',
+  'flavor.orange': 'پرتغالی',
+  'flavor.strawberry': 'توت‌فرنگی',
+  'flavor.mixed': 'مخلوط (از هر طعم یکی)',
+  'color.brown': 'شکلاتی',
+  'color.orange': 'پرتقالی',
+  'color.red': 'توت فرنگی',
+  'problem.flavor': 'طعم',
+  'problem.color': 'رنگ',
+  'list.separator': '، ',
+  'list.and': ' و ',
+
+  'order.title': 'سفارش مشتری 📝',
+  'order.line': '{count} جعبه {flavor}',
+  'order.lineWithColor': '{count} جعبه {flavor} با کادوی {color}',
+
+  'hint.noEvenSplit': '{error} با {boxes} تا جعبه نمیشه شکلات ها رو مساوی تقسیم کرد.',
+  'hint.changeBoxCount': 'تعداد جعبه ها رو عوض کن، با این تعداد جعبه تقسیم مساوی نمیشه.',
+  'hint.tryBoxCount': 'تعداد جعبه ها رو عوض کن. {boxes} تا جعبه رو امتحان کن!',
+  'hint.overUnder': '{error} جعبه های قرمز شکلات اضافه دارن و جعبه های زرد کم دارن.',
+  'hint.leftover': ' و {count} تا شکلات توی سینی باقی‌مانده بمونه',
+  'hint.perBox': 'هر جعبه باید {perBox} تا شکلات داشته باشه{leftover}.',
+  'hint.fixMarked': 'فقط {fixes} تا جعبه ی علامت دار رو درست کن: هر جعبه دقیقاً {perBox} تا شکلات{leftover}.',
+  'hint.flavorMismatch': 'شکلات ها درست تقسیم شدن ولی طعم بعضی جعبه ها با سفارش مشتری نمیخونه، جعبه های علامت دار رو درست کن',
+  'hint.boxFull': 'این جعبه پره! توی هر جعبه فقط {capacity} تا شکلات جا میشه، یه جعبه دیگه بیار',
+  'hint.colorMismatch': 'رنگ بعضی جعبه ها با سفارش مشتری نمیخونه، جعبه های علامت دار رو دوباره رنگ کن',
+
+  'score.failures': 'تقسیم اشتباه',
+  'score.hints': 'راهنمایی',
+  'score.accuracy': 'جعبه با طعم یا رنگ اشتباه',
+  'score.time': 'زمان اضافه',
+  'score.unit.times': '{count} بار',
+  'score.unit.boxes': '{count} تا',
+  'score.unit.seconds': '{count} ثانیه',
+  'score.stars': '{stars} ستاره از {max}',
+  'score.levelPoints': 'امتیاز این مرحله: {points} از {max}',
+
+  'chocolate.label': 'شکلات {flavor}',
+  'warehouse.title': 'انبار شکلات 🍫',
+  'warehouse.label': 'انبار شکلات',
+  'wrapping.label': 'کادوی {color}',
+  'box.label': 'جعبه {index}',
+  'box.chocolateCount': '{count} شکلات',
+  'box.capacityCount': '{count} شکلات از {capacity} تا',
+  'box.mistakeIn': 'اشتباه در {problems}',
+  'box.remove': 'برداشتن جعبه',
+  'box.removeNumbered': 'برداشتن جعبه {index}',
+  'box.dropChocolate': 'شکلات را اینجا بکشید',
+  'box.dropColor': 'رنگ را اینجا بکشید',
+  'leftover.name': 'سینی باقی‌مانده',
+  'leftover.title': 'سینی باقی‌مانده 🍽️',
+  'leftover.placeholder': 'شکلات‌های اضافه را اینجا بگذارید',
+
+  'announce.kept': '{chocolate} سر جایش ماند',
+  'announce.picked': '{chocolate} برداشته شد. حالا یک جعبه را انتخاب کن',
+  'announce.pickedFromBox': '{chocolate} برداشته شد. یک جعبه دیگر یا انبار را انتخاب کن',
+  'announce.colorPicked': 'کادوی {color} انتخاب شد. حالا یک جعبه را انتخاب کن',
+  'announce.chooseChocolate': 'اول یک شکلات انتخاب کن',
+  'announce.chooseColor': 'اول یک رنگ انتخاب کن',
+  'announce.cancelled': 'انتخاب لغو شد',
+  'announce.boxCount': 'جعبه {index}: {count} شکلات',
+  'announce.warehouseCount': 'انبار: {count} شکلات',
+  'announce.leftoverCount': 'سینی باقی‌مانده: {count} شکلات',
+
+  'game.header': 'مرحله {level} - امتیاز این دور: {score}',
+  'game.completed': 'اوه! چقدر قشنگ شد! همه جعبه‌ها مثل رنگین‌کمون شدن! 🌈✨',
+  'game.completedVoice': 'اوه! چقدر قشنگ شد! همه جعبه‌ها مثل رنگین‌کمون شدن!',
+  'history.undo': '↶ برگرد',
+  'history.undoTitle': 'برگشت (Ctrl+Z)',
+  'history.redo': 'دوباره ↷',
+  'history.redoTitle': 'دوباره (Ctrl+Shift+Z)',
+  'completion.congrats': '🎉 تبریک! 🎉',
+  'completion.nextOrder': 'از یه مراسم دیگه سفارش گرفتیم!',
+  'completion.goToWork': 'بریم سرکار',
+  'completion.allPacked': 'آفرین همه سفارش ها رو بسته بندی و رنگ کردی',
+  'completion.totalScore': 'کل امتیازهای شما:',
+  'completion.restart': 'شروع دوباره بازی',
+  'coloring.title': 'رنگ‌آمیزی جعبه‌ها 🎨',
+  'coloring.groupLabel': 'رنگ کادو',
+  'boxes.title': 'جعبه‌ها 📦',
+  'boxes.add': 'اضافه کردن جعبه',
+  'boxes.preset': 'در این مرحله جعبه‌ها از قبل چیده شده‌اند',
+  'boxes.capacity': 'توی هر جعبه دقیقاً {capacity} تا شکلات جا میشه. چند تا جعبه لازم داری؟',
+  'boxes.clear': 'پاک کردن جعبه‌ها',
+
+  'npc.show': 'نمایش راهنما',
+  'npc.next': 'بعدی ◀',
+  'npc.close': 'بستن راهنما',
+  'npc.coloringNudge1': 'اول روی یه رنگ کلیک کن، بعد روی جعبه بزن.',
+  'npc.coloringNudge2': 'جعبه ها منتظر رنگ کادو هستن!',
+
+  'audio.open': 'تنظیمات صدا',
+  'audio.title': 'صدا 🔊',
+  'audio.master': 'همه صداها',
+  'audio.sfx': 'افکت‌ها',
+  'audio.music': 'موسیقی',
+  'audio.voice': 'گوینده',
+  'audio.mute': 'بی‌صدا کردن {channel}',
+  'audio.reset': 'تنظیمات پیش‌فرض',
+  'audio.close': 'بستن',
+
+  'login.greeting': 'سلام {name}',
+  'login.friend': 'دوست من',
+  'login.intro': 'قراره ما شکلات هایی رو که برای جشن مدرسه و جشن تولد سفارش میدن بسته بندی و رنگ کنیم',
+  'login.ready': 'خب آماده ای؟',
+  'login.whoIsPlaying': 'کی داره بازی می‌کنه؟',
+  'login.newPlayer': 'بازیکن جدید',
+  'login.whatsYourName': 'اسمت چیه؟',
+  'login.namePlaceholder': 'اسم بازیکن',
+  'login.chooseAvatar': 'انتخاب شکلک',
+  'login.create': 'ساختن',
+  'login.cancel': 'انصراف',
+  'login.continue': 'ادامه بازی قبلی',
+  'login.start': 'بریم سرکار',
+  'login.otherModes': 'یا یه چالش دیگه:',
+  'login.highScore': 'بهترین امتیاز: {score}',
+  'login.teacherSettings': '⚙️ تنظیمات معلم',
+
+  'settings.title': 'تنظیمات معلم ⚙️',
+  'settings.reportTitle': 'گزارش یادگیری 📊',
+  'settings.summary': '{events} رویداد ثبت شده از {sessions} جلسه و {profiles} بازیکن',
+  'settings.exportCsv': 'خروجی CSV',
+  'settings.exportJson': 'خروجی JSON',
+  'settings.clear': 'پاک کردن گزارش',
+  'settings.confirmClear': 'همه گزارش‌ها پاک شوند؟',
+  'settings.back': 'بازگشت',
+
+  'pixi.loadError': 'خطا در بارگذاری بازی. لطفاً صفحه را تازه کنید.',
+  'pixi.level': 'مرحله {level}',
+  'pixi.errorTitle': 'خطا در بارگذاری بازی',
+  'pixi.retry': 'تلاش مجدد',
+  'pixi.reload': 'بارگذاری مجدد صفحه',
+  'pixi.loading': 'در حال بارگذاری بازی...',
+
+  'boardView.title': 'نمای بازی 🖥️',
+  'boardView.description': 'صفحه معمولی با صفحه‌خوان و دستگاه‌های قدیمی بهتر کار می‌کند؛ صحنه تصویرهای زنده‌تری دارد.',
+  'boardView.toPixi': '🎮 بازی روی صحنه',
+  'boardView.toDom': '📋 بازی روی صفحه',
+
+  'minigame.skip': 'رد شدن ⏭️',
+  'minigame.continue': 'برویم سراغ سفارش بعدی',
+  'minigame.timeLeft': '⏱️ {seconds} ثانیه',
+  'minigame.catch.title': '🍫 شکلات‌ها را بگیر!',
+  'minigame.catch.intro': 'شکلات‌ها دارند از آسمان می‌افتند! هر چه‌قدر می‌توانی بگیرشان!',
+  'minigame.catch.caught': 'گرفتی: {count}',
+  'minigame.catch.field': 'شکلات‌های در حال افتادن',
+  'minigame.catch.chocolate': 'شکلات {flavor}',
+  'minigame.catch.result': 'آفرین! {count} شکلات گرفتی و {points} امتیاز جایزه بردی!',
+  'minigame.count.title': '🎁 جعبه‌ها را بشمار!',
+  'minigame.count.intro': 'چند تا جعبه روی میز است؟ عدد درست را انتخاب کن!',
+  'minigame.count.round': 'دور {round} از {total}',
+  'minigame.count.box': 'جعبه',
+  'minigame.count.right': 'درسته! {count} جعبه است! 🎉',
+  'minigame.count.wrong': 'نزدیک بود! {count} جعبه است.',
+  'minigame.count.next': 'دور بعد',
+  'minigame.count.finish': 'دیدن امتیاز',
+  'minigame.count.result': '{count} از {total} را درست شمردی و {points} امتیاز جایزه بردی!',
+
+  'mode.timed': '⏱️ مسابقه با زمان',
+  'mode.endless': '♾️ سفارش‌های بی‌پایان',
+  'mode.timeLeft': '⏱️ {seconds} ثانیه',
+  'mode.bonusTime': '{seconds} ثانیه جایزه گرفتی! ⏱️',
+  'mode.timeBonusPoints': 'امتیاز وقت باقی‌مانده: {points}',
+  'mode.streak': '🔥 {count} سفارش پشت سر هم',
+  'mode.streakBonusPoints': 'امتیاز سفارش‌های پشت سر هم: {points}',
+  'mode.mistakesLeft': '❤️ {count} فرصت',
+  'mode.timeUp': 'وقت تموم شد! ⏰',
+  'mode.outOfMistakes': 'فرصت‌ها تموم شد!',
+  'mode.ordersDone': '{count} سفارش رو کامل کردی',
+  'mode.bestStreak': 'بیشترین سفارش پشت سر هم: {count}',
+  'mode.runScore': 'امتیاز این دور: {score}',
+  'mode.newRecord': '🏆 رکورد تازه!',
+  'mode.highScore': 'بهترین امتیاز: {score}',
+  'mode.menu': 'برگشت به صفحه اول',
+
+  'endless.name': 'سفارش {number}',
+  'endless.intro.equal-sharing': '{count} تا شکلات داریم، مساوی توی {boxes} تا جعبه تقسیمشون کن.',
+  'endless.intro.equal-grouping': 'توی هر جعبه فقط {capacity} تا شکلات جا میشه. {count} تا شکلات رو بسته بندی کن.',
+  'endless.intro.division-with-remainder': '{count} تا شکلات رو مساوی توی {boxes} تا جعبه بذار و اضافه ها رو بذار توی سینی باقی مانده.',
+  'endless.success': 'آفرین درست تقسیم کردی! حالا جعبه ها رو کادو کن.',
+  'endless.error': 'تقسیم درست نیست، دوباره امتحان کن!',
+  'endless.hint.equal-sharing': '{count} تا شکلات رو میشه توی {boxes} تا جعبه {perBox} تایی گذاشت.',
+  'endless.hint.equal-grouping': '{count} تا شکلات رو {capacity} تا {capacity} تا بشمار: {boxes} تا جعبه لازم داری.',
+  'endless.hint.division-with-remainder': 'توی هر جعبه {perBox} تا شکلات بذار، {remainder} تا اضافه میاد.'
+};
+
+export type MessageKey = keyof typeof fa;
+
+// شکل مفرد (مثلاً «1 box») فقط برای زبان‌هایی که لازم دارند
+export type Catalog = Record<MessageKey, string> & Partial<Record<`${MessageKey}_one`, string>>;
+
+export default fa as Catalog;
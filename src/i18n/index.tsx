@@ -0,0 +1,70 @@
+// React binding for the message catalogs: the runtime language switch and the useI18n hook
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { LOCALES, Locale, LocaleInfo, MessageParams, formatNumber, localizeDigits, translate } from './catalog';
+import { MessageKey } from './fa';
+import voiceManager from '../utils/VoiceManager';
+
+export type { MessageKey } from './fa';
+export type { Locale, LocaleInfo, MessageParams } from './catalog';
+export { LOCALES, formatNumber, localizeDigits, translate } from './catalog';
+
+const STORAGE_KEY = 'chocolate-packing-game:locale';
+const DEFAULT_LOCALE: Locale = 'fa';
+
+const readLocale = (): Locale => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored === 'fa' || stored === 'en' ? stored : DEFAULT_LOCALE;
+  } catch (error) {
+    return DEFAULT_LOCALE;
+  }
+};
+
+export interface I18nContextValue {
+  locale: Locale;
+  dir: LocaleInfo['dir'];
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number) => string;
+  localizeText: (text: string) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(readLocale);
+
+  // جهت صفحه، زبان سند و زبان متن‌خوان همراه زبان بازی عوض می‌شوند
+  useEffect(() => {
+    const { dir, speechLang } = LOCALES[locale];
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+    voiceManager.setLanguage(locale, speechLang);
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    dir: LOCALES[locale].dir,
+    setLocale: (next: Locale) => {
+      try {
+        window.localStorage.setItem(STORAGE_KEY, next);
+      } catch (error) {
+        console.warn('Could not save language:', error);
+      }
+      setLocaleState(next);
+    },
+    t: (key, params) => translate(locale, key, params),
+    formatNumber: value => formatNumber(value, locale),
+    localizeText: text => localizeDigits(text, locale)
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used inside I18nProvider');
+  }
+  return context;
+};
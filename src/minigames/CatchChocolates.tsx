@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FLAVORS, Flavor } from '../game/levels';
+import { useI18n } from '../i18n';
+import { playCompleteSound, playDropSound } from '../utils/SoundManager';
+import { speakLine } from '../utils/VoiceManager';
+import { MiniGameProps } from './types';
+import './MiniGames.css';
+
+interface FallingChocolate {
+  id: number;
+  flavor: Flavor;
+  // فاصله از لبه شروع به درصد پهنای میدان
+  offset: number;
+  durationMs: number;
+}
+
+const ROUND_SECONDS = 20;
+const SPAWN_EVERY_MS = 700;
+const FALL_MS: [number, number] = [2600, 4200];
+const POINTS_PER_CATCH = 5;
+
+const FLAVOR_EMOJI: Record<Flavor, string> = {
+  cocoa: '🍫',
+  orange: '🍊',
+  strawberry: '🍓'
+};
+
+// بازی کوچک «شکلات‌ها را بگیر»: شکلات‌هایی که از بالا می‌افتند با لمس گرفته می‌شوند
+const CatchChocolates: React.FC<MiniGameProps> = ({ onComplete }) => {
+  const { t } = useI18n();
+  const [chocolates, setChocolates] = useState<FallingChocolate[]>([]);
+  const [caught, setCaught] = useState(0);
+  const [secondsLeft, setSecondsLeft] = useState(ROUND_SECONDS);
+  const nextIdRef = useRef(0);
+  const finished = secondsLeft === 0;
+
+  // با عوض شدن زبان، راهنمای بازی به زبان تازه دوباره گفته می‌شود
+  useEffect(() => {
+    speakLine({ id: 'minigame.catch.intro', text: t('minigame.catch.intro') });
+  }, [t]);
+
+  useEffect(() => {
+    if (finished) return;
+    const spawner = window.setInterval(() => {
+      const id = nextIdRef.current++;
+      setChocolates(prev => [...prev, {
+        id,
+        flavor: FLAVORS[Math.floor(Math.random() * FLAVORS.length)],
+        offset: 5 + Math.random() * 85,
+        durationMs: FALL_MS[0] + Math.random() * (FALL_MS[1] - FALL_MS[0])
+      }]);
+    }, SPAWN_EVERY_MS);
+    const clock = window.setInterval(() => setSecondsLeft(prev => Math.max(0, prev - 1)), 1000);
+    return () => {
+      window.clearInterval(spawner);
+      window.clearInterval(clock);
+    };
+  }, [finished]);
+
+  useEffect(() => {
+    if (!finished) return;
+    setChocolates([]);
+    playCompleteSound();
+  }, [finished]);
+
+  const remove = (id: number) => setChocolates(prev => prev.filter(chocolate => chocolate.id !== id));
+
+  const catchChocolate = (id: number) => {
+    playDropSound();
+    setCaught(prev => prev + 1);
+    remove(id);
+  };
+
+  return (
+    <div className="minigame-catch">
+      <div className="minigame-status font-kids-body text-white-strong">
+        <span>{t('minigame.timeLeft', { seconds: secondsLeft })}</span>
+        <span>{t('minigame.catch.caught', { count: caught })}</span>
+      </div>
+      <div className="minigame-field" aria-label={t('minigame.catch.field')}>
+        {chocolates.map(chocolate => (
+          <button
+            key={chocolate.id}
+            className="minigame-falling accessible-button"
+            style={{ insetInlineStart: `${chocolate.offset}%`, animationDuration: `${chocolate.durationMs}ms` }}
+            onClick={() => catchChocolate(chocolate.id)}
+            onAnimationEnd={() => remove(chocolate.id)}
+            aria-label={t('minigame.catch.chocolate', { flavor: t(`flavor.${chocolate.flavor}`) })}
+          >
+            {FLAVOR_EMOJI[chocolate.flavor]}
+          </button>
+        ))}
+      </div>
+      {finished && (
+        <div className="minigame-result text-center">
+          <p className="font-kids-body text-lg text-white-strong">
+            {t('minigame.catch.result', { count: caught, points: caught * POINTS_PER_CATCH })}
+          </p>
+          <button className="kids-button-persian accessible-button" onClick={() => onComplete({ score: caught * POINTS_PER_CATCH })}>
+            {t('minigame.continue')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CatchChocolates;
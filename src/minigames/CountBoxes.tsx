@@ -0,0 +1,121 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useI18n } from '../i18n';
+import { playClickSound, playCompleteSound, playErrorSound, playSuccessSound } from '../utils/SoundManager';
+import { speakLine } from '../utils/VoiceManager';
+import { MiniGameProps } from './types';
+import './MiniGames.css';
+
+interface CountRound {
+  boxes: number;
+  choices: number[];
+}
+
+const ROUNDS = 3;
+const POINTS_PER_ANSWER = 10;
+const MIN_BOXES = 2;
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// تعداد جعبه‌ها در همان بازه‌ای است که مرحله قبل اجازه می‌داد؛ دو گزینه دیگر یکی کمتر و یکی بیشترند
+const createRound = (maxBoxes: number): CountRound => {
+  const boxes = MIN_BOXES + Math.floor(Math.random() * (maxBoxes - MIN_BOXES + 1));
+  return { boxes, choices: shuffle([boxes - 1, boxes, boxes + 1]) };
+};
+
+// بازی کوچک «جعبه‌ها را بشمار»: تعداد جعبه‌های روی میز از بین سه عدد انتخاب می‌شود
+const CountBoxes: React.FC<MiniGameProps> = ({ level, onComplete }) => {
+  const { t, formatNumber } = useI18n();
+  const maxBoxes = Math.max(MIN_BOXES + 2, Math.min(level.boxRange.max, 9));
+  const rounds = useMemo(() => Array.from({ length: ROUNDS }, () => createRound(maxBoxes)), [maxBoxes]);
+  const [roundIndex, setRoundIndex] = useState(0);
+  const [answer, setAnswer] = useState<number | null>(null);
+  const [correct, setCorrect] = useState(0);
+  const finished = roundIndex >= ROUNDS;
+  const round = rounds[Math.min(roundIndex, ROUNDS - 1)];
+
+  // با عوض شدن زبان، راهنمای بازی به زبان تازه دوباره گفته می‌شود
+  useEffect(() => {
+    speakLine({ id: 'minigame.count.intro', text: t('minigame.count.intro') });
+  }, [t]);
+
+  useEffect(() => {
+    if (finished) playCompleteSound();
+  }, [finished]);
+
+  const choose = (choice: number) => {
+    if (answer !== null) return;
+    setAnswer(choice);
+    if (choice === round.boxes) {
+      playSuccessSound();
+      setCorrect(prev => prev + 1);
+    } else {
+      playErrorSound();
+    }
+  };
+
+  const nextRound = () => {
+    playClickSound();
+    setAnswer(null);
+    setRoundIndex(prev => prev + 1);
+  };
+
+  if (finished) {
+    return (
+      <div className="minigame-result text-center">
+        <p className="font-kids-body text-lg text-white-strong">
+          {t('minigame.count.result', { count: correct, total: ROUNDS, points: correct * POINTS_PER_ANSWER })}
+        </p>
+        <button className="kids-button-persian accessible-button" onClick={() => onComplete({ score: correct * POINTS_PER_ANSWER })}>
+          {t('minigame.continue')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="minigame-count">
+      <div className="minigame-status font-kids-body text-white-strong">
+        <span>{t('minigame.count.round', { round: roundIndex + 1, total: ROUNDS })}</span>
+      </div>
+      {/* هر جعبه جدا خوانده می‌شود تا با صفحه‌خوان هم شمردنی باشد */}
+      <div className="minigame-boxes">
+        {Array.from({ length: round.boxes }, (_, index) => (
+          <span key={index} className="minigame-box" role="img" aria-label={t('minigame.count.box')}>🎁</span>
+        ))}
+      </div>
+      <div className="minigame-choices">
+        {round.choices.map(choice => (
+          <button
+            key={choice}
+            className={`kids-button-persian accessible-button minigame-choice ${
+              answer === null ? '' : choice === round.boxes ? 'minigame-choice-correct' : choice === answer ? 'minigame-choice-wrong' : ''
+            }`}
+            onClick={() => choose(choice)}
+            disabled={answer !== null}
+          >
+            {formatNumber(choice)}
+          </button>
+        ))}
+      </div>
+      {answer !== null && (
+        <div className="minigame-result text-center">
+          <p className="font-kids-body text-lg text-white-strong" role="status">
+            {t(answer === round.boxes ? 'minigame.count.right' : 'minigame.count.wrong', { count: round.boxes })}
+          </p>
+          <button className="kids-button-persian accessible-button" onClick={nextRound}>
+            {t(roundIndex + 1 < ROUNDS ? 'minigame.count.next' : 'minigame.count.finish')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CountBoxes;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { useI18n } from '../i18n';
+import { playClickSound } from '../utils/SoundManager';
+import { cancelVoice } from '../utils/VoiceManager';
+import { LevelDefinition } from '../game/levels';
+import { MiniGameDefinition, MiniGameResult } from './types';
+import './MiniGames.css';
+
+interface MiniGameHostProps {
+  miniGame: MiniGameDefinition;
+  level: LevelDefinition;
+  onFinish: (result: MiniGameResult) => void;
+}
+
+// قاب مشترک بازی‌های کوچک: عنوان، خود بازی و دکمه رد شدن (بدون امتیاز)
+const MiniGameHost: React.FC<MiniGameHostProps> = ({ miniGame, level, onFinish }) => {
+  const { t } = useI18n();
+  const Game = miniGame.component;
+
+  const finish = (result: MiniGameResult) => {
+    cancelVoice();
+    onFinish(result);
+  };
+
+  return (
+    <div className="minigame-overlay" role="dialog" aria-modal="true" aria-labelledby="minigame-title">
+      <div className="minigame-card game-card-iranian persian-border">
+        <div className="minigame-header">
+          <h2 id="minigame-title" className="font-kids-title text-2xl text-white-enhanced">{t(miniGame.title)}</h2>
+          <button
+            className="minigame-skip font-kids-body accessible-button"
+            onClick={() => {
+              playClickSound();
+              finish({ score: 0 });
+            }}
+          >
+            {t('minigame.skip')}
+          </button>
+        </div>
+        <Game level={level} onComplete={finish} />
+      </div>
+    </div>
+  );
+};
+
+export default MiniGameHost;
@@ -0,0 +1,42 @@
+// Bonus rounds that can be played between two orders; the level flow asks here which one follows a level
+import { LevelDefinition } from '../game/levels';
+import CatchChocolates from './CatchChocolates';
+import CountBoxes from './CountBoxes';
+import { MiniGameDefinition } from './types';
+
+export type { MiniGameDefinition, MiniGameProps, MiniGameResult } from './types';
+
+const registry: MiniGameDefinition[] = [
+  {
+    id: 'catch-chocolates',
+    title: 'minigame.catch.title',
+    component: CatchChocolates,
+    canFollow: level => level.concept === 'equal-sharing'
+  },
+  {
+    id: 'count-boxes',
+    title: 'minigame.count.title',
+    component: CountBoxes,
+    // بعد از مرحله‌هایی که بچه خودش تعداد جعبه‌ها را انتخاب کرده
+    canFollow: level => level.presetBoxes === 0
+  }
+];
+
+// بازی تازه با همان شناسه جای بازی قبلی را می‌گیرد
+export const registerMiniGame = (miniGame: MiniGameDefinition) => {
+  const index = registry.findIndex(existing => existing.id === miniGame.id);
+  if (index >= 0) {
+    registry[index] = miniGame;
+  } else {
+    registry.push(miniGame);
+  }
+};
+
+export const getMiniGame = (id: string): MiniGameDefinition | null =>
+  registry.find(miniGame => miniGame.id === id) ?? null;
+
+// اگر چند بازی بعد از این مرحله مجاز باشند، به نوبت و بر اساس شماره مرحله یکی انتخاب می‌شود
+export const getMiniGameAfter = (level: LevelDefinition, levelNumber: number): MiniGameDefinition | null => {
+  const candidates = registry.filter(miniGame => miniGame.canFollow(level));
+  return candidates.length > 0 ? candidates[(levelNumber - 1) % candidates.length] : null;
+};
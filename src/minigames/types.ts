@@ -0,0 +1,23 @@
+// Contract between the level flow and a bonus round played between two orders
+import React from 'react';
+import { LevelDefinition } from '../game/levels';
+import { MessageKey } from '../i18n';
+
+export interface MiniGameResult {
+  // امتیازی که به امتیاز دور اضافه می‌شود
+  score: number;
+}
+
+export interface MiniGameProps {
+  // مرحله‌ای که همین حالا تمام شده؛ بازی کوچک می‌تواند عددهایش را از آن بگیرد
+  level: LevelDefinition;
+  onComplete: (result: MiniGameResult) => void;
+}
+
+export interface MiniGameDefinition {
+  id: string;
+  title: MessageKey;
+  component: React.ComponentType<MiniGameProps>;
+  // بعد از کدام مرحله‌ها می‌شود این بازی را آورد
+  canFollow: (level: LevelDefinition) => boolean;
+}
@@ -0,0 +1,195 @@
+// Pooled particle bursts for stage celebrations; sprites are recycled instead of created per effect
+import * as PIXI from 'pixi.js';
+import { SceneManager } from './SceneManager';
+import { AtlasFrame, TextureAtlas } from './textureAtlas';
+
+export type ParticleEffect = 'confetti' | 'sparkle' | 'wrapping';
+
+interface EffectPreset {
+  frame: AtlasFrame;
+  count: number;
+  // سرعت بر حسب پیکسل در هر فریم ۶۰ هرتز
+  speed: [number, number];
+  // زاویه مرکزی و پهنای پخش؛ زاویه منفی یعنی رو به بالا
+  angle: number;
+  spread: number;
+  gravity: number;
+  drag: number;
+  lifeMs: [number, number];
+  scale: [number, number];
+  spin: number;
+  // ذره‌های کاغذی در هوا می‌چرخند و پهنایشان عوض می‌شود
+  flutter: boolean;
+  blendMode: PIXI.BLEND_MODES;
+  tints: number[];
+}
+
+const IRANIAN_TINTS = [0x239F40, 0xDA0000, 0xFFD700, 0xFFFFFF, 0x1C39BB];
+
+const PRESETS: Record<ParticleEffect, EffectPreset> = {
+  confetti: {
+    frame: 'confetti',
+    count: 40,
+    speed: [3, 7],
+    angle: -Math.PI / 2,
+    spread: 2.2,
+    gravity: 0.18,
+    drag: 0.985,
+    lifeMs: [1100, 1600],
+    scale: [0.7, 1.2],
+    spin: 0.25,
+    flutter: true,
+    blendMode: 'normal',
+    tints: IRANIAN_TINTS
+  },
+  sparkle: {
+    frame: 'sparkle',
+    count: 14,
+    speed: [1, 3.5],
+    angle: 0,
+    spread: Math.PI * 2,
+    gravity: 0,
+    drag: 0.94,
+    lifeMs: [450, 750],
+    scale: [0.6, 1.3],
+    spin: 0.1,
+    flutter: false,
+    blendMode: 'add',
+    tints: [0xFFD700, 0xFFFFFF]
+  },
+  wrapping: {
+    frame: 'paper',
+    count: 24,
+    speed: [2, 6],
+    angle: -Math.PI / 2,
+    spread: Math.PI * 1.4,
+    gravity: 0.12,
+    drag: 0.98,
+    lifeMs: [900, 1300],
+    scale: [0.8, 1.3],
+    spin: 0.2,
+    flutter: true,
+    blendMode: 'normal',
+    tints: [0xFFFFFF]
+  }
+};
+
+// سقف ذره‌های همزمان؛ جشن‌های پشت سر هم بازی را کند نمی‌کنند
+const MAX_PARTICLES = 400;
+// انتهای عمر ذره کم‌کم محو می‌شود
+const FADE_PORTION = 0.3;
+
+interface Particle {
+  sprite: PIXI.Sprite;
+  vx: number;
+  vy: number;
+  spin: number;
+  gravity: number;
+  drag: number;
+  age: number;
+  life: number;
+  baseScale: number;
+  flutter: boolean;
+  phase: number;
+}
+
+const between = ([min, max]: [number, number]) => min + Math.random() * (max - min);
+const pick = <T>(items: T[]) => items[Math.floor(Math.random() * items.length)];
+
+export interface BurstOptions {
+  // رنگ‌های این پرتاب به جای رنگ‌های پیش‌فرض جلوه
+  tints?: number[];
+  count?: number;
+}
+
+export class ParticleSystem {
+  private layer: PIXI.Container;
+  private atlas: TextureAtlas;
+  private active: Particle[] = [];
+  private pool: PIXI.Sprite[] = [];
+  private reducedMotion: boolean;
+
+  constructor(scene: SceneManager, atlas: TextureAtlas, layer: PIXI.Container) {
+    this.layer = layer;
+    this.atlas = atlas;
+    this.reducedMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+    scene.addTicker(ticker => this.update(ticker.deltaTime, ticker.deltaMS));
+  }
+
+  burst(effect: ParticleEffect, x: number, y: number, options: BurstOptions = {}) {
+    const preset = PRESETS[effect];
+    const tints = options.tints ?? preset.tints;
+    let count = options.count ?? preset.count;
+    // برای کاربرانی که حرکت کمتر خواسته‌اند فقط چند ذره
+    if (this.reducedMotion) count = Math.ceil(count / 4);
+    count = Math.min(count, MAX_PARTICLES - this.active.length);
+
+    for (let i = 0; i < count; i++) {
+      const sprite = this.acquire();
+      const angle = preset.angle + (Math.random() - 0.5) * preset.spread;
+      const speed = between(preset.speed);
+      const baseScale = between(preset.scale);
+      sprite.texture = this.atlas.get(preset.frame);
+      sprite.tint = pick(tints);
+      sprite.blendMode = preset.blendMode;
+      sprite.position.set(x, y);
+      sprite.rotation = Math.random() * Math.PI * 2;
+      sprite.scale.set(baseScale);
+      sprite.alpha = 1;
+      sprite.visible = true;
+      this.active.push({
+        sprite,
+        vx: Math.cos(angle) * speed,
+        vy: Math.sin(angle) * speed,
+        spin: (Math.random() - 0.5) * preset.spin * 2,
+        gravity: preset.gravity,
+        drag: preset.drag,
+        age: 0,
+        life: between(preset.lifeMs),
+        baseScale,
+        flutter: preset.flutter,
+        phase: Math.random() * Math.PI * 2
+      });
+    }
+  }
+
+  private acquire(): PIXI.Sprite {
+    const sprite = this.pool.pop() ?? new PIXI.Sprite();
+    sprite.anchor.set(0.5);
+    if (!sprite.parent) this.layer.addChild(sprite);
+    return sprite;
+  }
+
+  // اسپرایت از صحنه جدا نمی‌شود، فقط پنهان می‌شود تا دوباره به کار برود
+  private release(sprite: PIXI.Sprite) {
+    sprite.visible = false;
+    this.pool.push(sprite);
+  }
+
+  private update(delta: number, deltaMs: number) {
+    if (this.active.length === 0) return;
+    this.active = this.active.filter(particle => {
+      particle.age += deltaMs;
+      if (particle.age >= particle.life) {
+        this.release(particle.sprite);
+        return false;
+      }
+      const { sprite } = particle;
+      particle.vx *= Math.pow(particle.drag, delta);
+      particle.vy = particle.vy * Math.pow(particle.drag, delta) + particle.gravity * delta;
+      sprite.x += particle.vx * delta;
+      sprite.y += particle.vy * delta;
+      sprite.rotation += particle.spin * delta;
+
+      const progress = particle.age / particle.life;
+      sprite.alpha = progress > 1 - FADE_PORTION ? (1 - progress) / FADE_PORTION : 1;
+      if (particle.flutter) {
+        particle.phase += 0.2 * delta;
+        sprite.scale.set(particle.baseScale * Math.cos(particle.phase), particle.baseScale);
+      } else {
+        sprite.scale.set(particle.baseScale * (1 - progress * 0.6));
+      }
+      return true;
+    });
+  }
+}
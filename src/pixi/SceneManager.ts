@@ -0,0 +1,148 @@
+// Pixi application lifecycle: fits a fixed design-size world into its container and disposes everything it started
+import * as PIXI from 'pixi.js';
+
+export interface SceneOptions {
+  // اندازه طراحی صحنه؛ همه مختصات بازی در این فضا هستند
+  width: number;
+  height: number;
+  background: number;
+}
+
+// صحنه فقط به رویدادهای اشاره‌گر گوش می‌دهد و همه آن‌ها یک FederatedPointerEvent می‌فرستند
+type PointerEventName = Exclude<keyof PIXI.FederatedEventMap, 'wheel'>;
+type PointerListener = (event: PIXI.FederatedPointerEvent) => void;
+
+// هر منبعی (تیکر، شنونده، تایمر) که صحنه می‌سازد اینجا ثبت می‌شود تا destroy همه را پاک کند
+export class SceneManager {
+  readonly app = new PIXI.Application();
+  // ریشه صحنه در فضای طراحی؛ برای جا شدن در ظرف بزرگ یا کوچک می‌شود
+  readonly world = new PIXI.Container();
+  readonly options: SceneOptions;
+  private container: HTMLElement;
+  private initialized = false;
+  private destroyed = false;
+  private disposers: (() => void)[] = [];
+  // بافت‌ها و منابع دیگری که بعد از از بین رفتن برنامه آزاد می‌شوند
+  private owned: { destroy(): void }[] = [];
+
+  constructor(container: HTMLElement, options: SceneOptions) {
+    this.container = container;
+    this.options = options;
+  }
+
+  get isDestroyed(): boolean {
+    return this.destroyed;
+  }
+
+  // در StrictMode ممکن است صحنه قبل از تمام شدن init از بین برود؛ آن وقت false برمی‌گردد و بوم به صفحه اضافه نمی‌شود
+  async init(): Promise<boolean> {
+    try {
+      await this.app.init({
+        width: Math.max(1, this.container.clientWidth),
+        height: Math.max(1, this.container.clientHeight),
+        backgroundColor: this.options.background,
+        antialias: true,
+        resolution: window.devicePixelRatio || 1,
+        autoDensity: true
+      });
+    } catch (error) {
+      // init ناموفق ممکن است رندرر را ساخته باشد؛ destroy بعدی سراغ برنامه نمی‌رود، پس همین‌جا آزاد می‌شود
+      this.releasePartialApp();
+      throw error;
+    }
+    this.initialized = true;
+    if (this.destroyed) {
+      this.app.destroy(true, { children: true });
+      return false;
+    }
+
+    this.container.replaceChildren(this.app.canvas);
+    this.app.stage.addChild(this.world);
+    this.app.stage.eventMode = 'static';
+    this.app.stage.hitArea = this.app.screen;
+
+    this.watchSize();
+    this.watchPixelRatio();
+    this.fit();
+    return true;
+  }
+
+  // نقطه‌ای روی بوم به مختصات فضای طراحی
+  toWorld(point: PIXI.PointData): PIXI.Point {
+    return this.world.toLocal(point);
+  }
+
+  addTicker(fn: (ticker: PIXI.Ticker) => void) {
+    this.app.ticker.add(fn);
+    this.disposers.push(() => this.app.ticker.remove(fn));
+  }
+
+  listen(target: PIXI.Container, event: PointerEventName, fn: PointerListener) {
+    target.on(event, fn);
+    this.disposers.push(() => target.off(event, fn));
+  }
+
+  after(ms: number, fn: () => void) {
+    const timer = window.setTimeout(() => {
+      if (!this.destroyed) fn();
+    }, ms);
+    this.disposers.push(() => window.clearTimeout(timer));
+  }
+
+  own<T extends { destroy(): void }>(resource: T): T {
+    this.owned.push(resource);
+    return resource;
+  }
+
+  destroy() {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.disposers.splice(0).reverse().forEach(dispose => dispose());
+    // اگر init هنوز تمام نشده، خود init بعد از پایانش برنامه را از بین می‌برد
+    if (this.initialized) {
+      this.app.destroy(true, { children: true });
+    }
+    this.owned.splice(0).forEach(resource => resource.destroy());
+  }
+
+  private releasePartialApp() {
+    if (this.app.renderer) {
+      this.app.destroy(true, { children: true });
+    } else {
+      this.app.stage.destroy({ children: true });
+    }
+  }
+
+  private watchSize() {
+    const observer = new ResizeObserver(() => this.fit());
+    observer.observe(this.container);
+    this.disposers.push(() => observer.disconnect());
+  }
+
+  // جابه‌جا شدن پنجره بین نمایشگرها یا بزرگ‌نمایی مرورگر نسبت پیکسل را عوض می‌کند
+  private watchPixelRatio() {
+    let query: MediaQueryList | null = null;
+    const onChange = () => {
+      this.app.renderer.resolution = window.devicePixelRatio || 1;
+      this.fit();
+      subscribe();
+    };
+    const subscribe = () => {
+      query?.removeEventListener('change', onChange);
+      query = window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`);
+      query.addEventListener('change', onChange);
+    };
+    subscribe();
+    this.disposers.push(() => query?.removeEventListener('change', onChange));
+  }
+
+  private fit() {
+    if (this.destroyed) return;
+    const width = Math.max(1, this.container.clientWidth);
+    const height = Math.max(1, this.container.clientHeight);
+    this.app.renderer.resize(width, height);
+    const scale = Math.min(width / this.options.width, height / this.options.height);
+    this.world.scale.set(scale);
+    this.world.position.set((width - this.options.width * scale) / 2, (height - this.options.height * scale) / 2);
+  }
+}
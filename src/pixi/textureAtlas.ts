@@ -0,0 +1,178 @@
+// Procedural texture atlas: every stage sprite is drawn once into a single texture at startup
+import * as PIXI from 'pixi.js';
+import { Flavor } from '../game/levels';
+
+export type AtlasFrame =
+  | `chocolate-${Flavor}`
+  | 'box'
+  | 'box-fill'
+  | 'ribbon'
+  | 'confetti'
+  | 'sparkle'
+  | 'paper';
+
+interface FrameDrawing {
+  name: AtlasFrame;
+  width: number;
+  height: number;
+  draw: (g: PIXI.Graphics) => void;
+}
+
+// اندازه جعبه در اطلس؛ اسپرایت جعبه برای اندازه واقعی کوچک یا بزرگ می‌شود
+export const BOX_FRAME_SIZE = 120;
+export const BOX_DEPTH = 8;
+export const CHOCOLATE_FRAME_SIZE = 40;
+
+const ATLAS_WIDTH = 512;
+const PADDING = 2;
+// بافت با وضوح دو برابر ساخته می‌شود تا روی صفحه‌های پرتراکم و با بزرگ‌نمایی تیز بماند
+const ATLAS_RESOLUTION = 2;
+
+const drawCocoa = (g: PIXI.Graphics) => {
+  // شکلات تخته‌ای با چهار خانه
+  g.roundRect(2, 2, 36, 36, 7).fill(0x5C3317).stroke({ width: 2, color: 0x1C39BB }); // persian-blue border
+  for (let row = 0; row < 2; row++) {
+    for (let column = 0; column < 2; column++) {
+      g.roundRect(7 + column * 14, 7 + row * 14, 12, 12, 3).fill(0x7B4A2A);
+    }
+  }
+  g.roundRect(8, 8, 6, 4, 2).fill({ color: 0xFFFFFF, alpha: 0.35 });
+};
+
+const drawOrange = (g: PIXI.Graphics) => {
+  // شکلات گرد پرتقالی با برش‌های پرتقال
+  g.circle(20, 21, 17).fill(0xFF8C00).stroke({ width: 2, color: 0x1C39BB });
+  for (let i = 0; i < 8; i++) {
+    const angle = (i / 8) * Math.PI * 2;
+    g.moveTo(20, 21).lineTo(20 + Math.cos(angle) * 13, 21 + Math.sin(angle) * 13);
+  }
+  g.stroke({ width: 1.5, color: 0xFFD27F });
+  g.circle(20, 21, 3).fill(0xFFD27F);
+  g.ellipse(26, 4, 5, 3).fill(0x239F40); // iran-green leaf
+  g.circle(13, 13, 3).fill({ color: 0xFFFFFF, alpha: 0.4 });
+};
+
+const drawStrawberry = (g: PIXI.Graphics) => {
+  // شکلات توت‌فرنگی با دانه‌های زرد و کلاهک سبز
+  g.moveTo(20, 38)
+    .bezierCurveTo(4, 28, 2, 12, 12, 9)
+    .bezierCurveTo(16, 8, 18, 10, 20, 11)
+    .bezierCurveTo(22, 10, 24, 8, 28, 9)
+    .bezierCurveTo(38, 12, 36, 28, 20, 38)
+    .closePath()
+    .fill(0xDA0000) // iran-red
+    .stroke({ width: 2, color: 0x1C39BB });
+  [[14, 18], [20, 16], [26, 18], [12, 24], [18, 23], [24, 23], [28, 24], [16, 29], [22, 30]].forEach(([x, y]) => {
+    g.ellipse(x, y, 1, 1.6).fill(0xFFD700);
+  });
+  g.star(20, 8, 5, 7, 3).fill(0x239F40);
+  g.circle(13, 14, 2.5).fill({ color: 0xFFFFFF, alpha: 0.4 });
+};
+
+const drawBox = (g: PIXI.Graphics) => {
+  const size = BOX_FRAME_SIZE;
+  g.poly([0, size, BOX_DEPTH, size + BOX_DEPTH, size + BOX_DEPTH, size + BOX_DEPTH, size, size])
+    .fill({ color: 0x1C39BB, alpha: 0.6 }) // persian-blue shadow
+    .poly([size, 0, size + BOX_DEPTH, BOX_DEPTH, size + BOX_DEPTH, size + BOX_DEPTH, size, size])
+    .fill({ color: 0x239F40, alpha: 0.6 }) // iran-green shadow
+    .roundRect(0, 0, size, size, 10)
+    .fill(0x40E0D0) // gulf-turquoise
+    .stroke({ width: 3, color: 0xFFD700 }) // persian-gold border
+    // کف داخل جعبه کمی تیره‌تر است تا شکلات‌ها رویش دیده شوند
+    .roundRect(6, 6, size - 12, size - 12, 6)
+    .fill({ color: 0x1C39BB, alpha: 0.15 });
+};
+
+// کاغذ چین‌دار کف جعبه؛ سفید کشیده می‌شود و با tint رنگ می‌گیرد
+const drawBoxFill = (g: PIXI.Graphics) => {
+  const size = BOX_FRAME_SIZE - 12;
+  g.roundRect(0, 0, size, size, 6).fill({ color: 0xFFFFFF, alpha: 0.55 });
+  for (let x = 6; x < size; x += 8) {
+    g.moveTo(x, 2).lineTo(x + 4, size - 2);
+  }
+  g.stroke({ width: 1, color: 0xFFFFFF, alpha: 0.8 });
+};
+
+const drawRibbon = (g: PIXI.Graphics) => {
+  const size = BOX_FRAME_SIZE;
+  const band = 14;
+  g.rect(size / 2 - band / 2, 0, band, size)
+    .rect(0, size / 2 - band / 2, size, band)
+    .fill(0xFFFFFF)
+    .ellipse(size / 2 - 14, size / 2 - 4, 14, 9)
+    .ellipse(size / 2 + 14, size / 2 - 4, 14, 9)
+    .fill(0xFFFFFF)
+    .stroke({ width: 2, color: 0x000000, alpha: 0.2 })
+    .circle(size / 2, size / 2, 7)
+    .fill(0xFFFFFF)
+    .stroke({ width: 2, color: 0x000000, alpha: 0.2 });
+};
+
+const FRAMES: FrameDrawing[] = [
+  { name: 'chocolate-cocoa', width: CHOCOLATE_FRAME_SIZE, height: CHOCOLATE_FRAME_SIZE, draw: drawCocoa },
+  { name: 'chocolate-orange', width: CHOCOLATE_FRAME_SIZE, height: CHOCOLATE_FRAME_SIZE, draw: drawOrange },
+  { name: 'chocolate-strawberry', width: CHOCOLATE_FRAME_SIZE, height: CHOCOLATE_FRAME_SIZE, draw: drawStrawberry },
+  { name: 'box', width: BOX_FRAME_SIZE + BOX_DEPTH, height: BOX_FRAME_SIZE + BOX_DEPTH, draw: drawBox },
+  { name: 'box-fill', width: BOX_FRAME_SIZE - 12, height: BOX_FRAME_SIZE - 12, draw: drawBoxFill },
+  { name: 'ribbon', width: BOX_FRAME_SIZE, height: BOX_FRAME_SIZE, draw: drawRibbon },
+  // ذره‌ها سفیدند و رنگشان را هنگام پرتاب می‌گیرند
+  { name: 'confetti', width: 8, height: 14, draw: g => g.rect(0, 0, 8, 14).fill(0xFFFFFF) },
+  { name: 'sparkle', width: 16, height: 16, draw: g => g.star(8, 8, 4, 8, 2.5).fill(0xFFFFFF) },
+  {
+    name: 'paper',
+    width: 14,
+    height: 10,
+    draw: g => g.rect(0, 0, 14, 10).fill(0xFFFFFF).rect(0, 4, 14, 2).fill({ color: 0x000000, alpha: 0.15 })
+  }
+];
+
+export interface TextureAtlas {
+  get(frame: AtlasFrame): PIXI.Texture;
+  destroy(): void;
+}
+
+// قاب‌ها ردیف به ردیف چیده می‌شوند و همه در یک بافت کشیده می‌شوند
+export const createTextureAtlas = (renderer: PIXI.Renderer): TextureAtlas => {
+  const sheet = new PIXI.Container();
+  const rects = new Map<AtlasFrame, PIXI.Rectangle>();
+  let x = PADDING;
+  let y = PADDING;
+  let rowHeight = 0;
+
+  FRAMES.forEach(frame => {
+    if (x + frame.width + PADDING > ATLAS_WIDTH) {
+      x = PADDING;
+      y += rowHeight + PADDING;
+      rowHeight = 0;
+    }
+    const graphics = new PIXI.Graphics();
+    frame.draw(graphics);
+    graphics.position.set(x, y);
+    sheet.addChild(graphics);
+    rects.set(frame.name, new PIXI.Rectangle(x, y, frame.width, frame.height));
+    x += frame.width + PADDING;
+    rowHeight = Math.max(rowHeight, frame.height);
+  });
+
+  const base = renderer.generateTexture({
+    target: sheet,
+    frame: new PIXI.Rectangle(0, 0, ATLAS_WIDTH, y + rowHeight + PADDING),
+    resolution: ATLAS_RESOLUTION,
+    antialias: true
+  });
+  sheet.destroy({ children: true });
+
+  const textures = new Map<AtlasFrame, PIXI.Texture>();
+  rects.forEach((frame, name) => {
+    textures.set(name, new PIXI.Texture({ source: base.source, frame }));
+  });
+
+  return {
+    get: frame => textures.get(frame) ?? PIXI.Texture.EMPTY,
+    destroy: () => {
+      textures.forEach(texture => texture.destroy());
+      textures.clear();
+      base.destroy(true);
+    }
+  };
+};
@@ -0,0 +1,199 @@
+// Procedurally sequenced background music: a short looping tune per mood, played with Web Audio oscillators
+export type MusicMood = 'packing' | 'coloring' | 'celebration';
+
+interface MoodPattern {
+  bpm: number;
+  // نت پایه به شماره MIDI و درجه‌های گام نسبت به آن
+  root: number;
+  scale: number[];
+  // هر خانه یک هشتم است؛ null یعنی سکوت
+  melody: (number | null)[];
+  bass: (number | null)[];
+  lead: OscillatorType;
+  leadGain: number;
+  bassGain: number;
+}
+
+const MOODS: Record<MusicMood, MoodPattern> = {
+  // ریتم شاد و سبک برای بسته‌بندی
+  packing: {
+    bpm: 104,
+    root: 72,
+    scale: [0, 2, 4, 7, 9],
+    melody: [0, null, 2, 1, 2, null, 4, null, 3, 2, null, 1, 2, null, 0, null],
+    bass: [0, null, null, null, -2, null, null, null, -1, null, null, null, -2, null, null, null],
+    lead: 'triangle',
+    leadGain: 0.22,
+    bassGain: 0.18
+  },
+  // آرام و نرم برای رنگ‌آمیزی
+  coloring: {
+    bpm: 84,
+    root: 65,
+    scale: [0, 2, 4, 5, 7, 9, 11],
+    melody: [4, null, null, 3, 2, null, null, null, 4, null, 5, null, 2, null, null, null],
+    bass: [0, null, null, null, null, null, null, null, -3, null, null, null, null, null, null, null],
+    lead: 'sine',
+    leadGain: 0.2,
+    bassGain: 0.16
+  },
+  // آرپژهای تند برای جشن پایان مرحله
+  celebration: {
+    bpm: 132,
+    root: 72,
+    scale: [0, 2, 4, 5, 7, 9, 11],
+    melody: [0, 2, 4, 7, 4, 2, 0, null, 3, 5, 7, 10, 7, 5, 3, null],
+    bass: [0, null, 0, null, -3, null, -3, null, -2, null, -2, null, -3, null, -4, null],
+    lead: 'square',
+    leadGain: 0.1,
+    bassGain: 0.18
+  }
+};
+
+interface Track {
+  mood: MusicMood;
+  bus: GainNode;
+  step: number;
+  nextStepTime: number;
+  // زمانی که محو شدن آهنگ قبلی تمام می‌شود
+  endsAt: number | null;
+}
+
+const LOOKAHEAD_MS = 100;
+const SCHEDULE_AHEAD_SECONDS = 0.3;
+const CROSSFADE_SECONDS = 1.5;
+const DUCK_LEVEL = 0.25;
+const DUCK_SECONDS = 0.25;
+
+const midiToFrequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+// درجه گام (حتی منفی یا بیشتر از طول گام) به شماره نت MIDI
+const degreeToNote = (pattern: MoodPattern, degree: number) => {
+  const { scale, root } = pattern;
+  const octave = Math.floor(degree / scale.length);
+  const index = ((degree % scale.length) + scale.length) % scale.length;
+  return root + octave * 12 + scale[index];
+};
+
+export class BackgroundMusic {
+  private context: AudioContext;
+  private duck: GainNode;
+  private tracks: Track[] = [];
+  private timer: number | null = null;
+
+  // بلندی موسیقی را کانال مقصد تعیین می‌کند
+  constructor(context: AudioContext, destination: AudioNode) {
+    this.context = context;
+    this.duck = context.createGain();
+    this.duck.connect(destination);
+  }
+
+  isPlaying(): boolean {
+    return this.timer !== null;
+  }
+
+  getMood(): MusicMood | null {
+    const current = this.tracks.find(track => track.endsAt === null);
+    return current ? current.mood : null;
+  }
+
+  start(mood: MusicMood) {
+    if (this.isPlaying()) {
+      this.setMood(mood);
+      return;
+    }
+    this.addTrack(mood);
+    this.timer = window.setInterval(() => this.schedule(), LOOKAHEAD_MS);
+    this.schedule();
+  }
+
+  stop() {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+    const now = this.context.currentTime;
+    this.tracks.forEach(track => {
+      track.bus.gain.cancelScheduledValues(now);
+      track.bus.gain.setTargetAtTime(0, now, 0.1);
+      window.setTimeout(() => track.bus.disconnect(), 1000);
+    });
+    this.tracks = [];
+  }
+
+  // آهنگ قبلی آرام محو می‌شود و آهنگ تازه همزمان بالا می‌آید
+  setMood(mood: MusicMood) {
+    if (!this.isPlaying() || this.getMood() === mood) return;
+    const now = this.context.currentTime;
+    this.tracks.forEach(track => {
+      if (track.endsAt !== null) return;
+      track.bus.gain.cancelScheduledValues(now);
+      track.bus.gain.setValueAtTime(track.bus.gain.value, now);
+      track.bus.gain.linearRampToValueAtTime(0, now + CROSSFADE_SECONDS);
+      track.endsAt = now + CROSSFADE_SECONDS;
+    });
+    this.addTrack(mood);
+  }
+
+  // وقتی متن‌خوان حرف می‌زند موسیقی آهسته‌تر می‌شود
+  setDucked(ducked: boolean) {
+    const now = this.context.currentTime;
+    this.duck.gain.cancelScheduledValues(now);
+    this.duck.gain.setTargetAtTime(ducked ? DUCK_LEVEL : 1, now, DUCK_SECONDS / 3);
+  }
+
+  private addTrack(mood: MusicMood) {
+    const now = this.context.currentTime;
+    const bus = this.context.createGain();
+    bus.gain.setValueAtTime(0, now);
+    bus.gain.linearRampToValueAtTime(1, now + CROSSFADE_SECONDS);
+    bus.connect(this.duck);
+    this.tracks.push({ mood, bus, step: 0, nextStepTime: now + 0.05, endsAt: null });
+  }
+
+  private schedule() {
+    const now = this.context.currentTime;
+    this.tracks = this.tracks.filter(track => {
+      if (track.endsAt === null || track.endsAt > now) return true;
+      track.bus.disconnect();
+      return false;
+    });
+    this.tracks.forEach(track => {
+      const pattern = MOODS[track.mood];
+      const stepSeconds = 60 / pattern.bpm / 2;
+      // اگر تب مرورگر پنهان بوده، خانه‌های جامانده پشت سر هم نواخته نمی‌شوند
+      if (track.nextStepTime < now) track.nextStepTime = now;
+      while (track.nextStepTime < now + SCHEDULE_AHEAD_SECONDS) {
+        this.playStep(track, pattern, stepSeconds);
+        track.nextStepTime += stepSeconds;
+        track.step = (track.step + 1) % pattern.melody.length;
+      }
+    });
+  }
+
+  private playStep(track: Track, pattern: MoodPattern, stepSeconds: number) {
+    const melody = pattern.melody[track.step];
+    const bass = pattern.bass[track.step % pattern.bass.length];
+    if (melody !== null) {
+      this.playNote(track.bus, degreeToNote(pattern, melody), track.nextStepTime, stepSeconds * 0.9, pattern.lead, pattern.leadGain);
+    }
+    if (bass !== null) {
+      this.playNote(track.bus, degreeToNote(pattern, bass) - 24, track.nextStepTime, stepSeconds * 3.5, 'sine', pattern.bassGain);
+    }
+  }
+
+  private playNote(bus: GainNode, note: number, time: number, duration: number, type: OscillatorType, gain: number) {
+    const oscillator = this.context.createOscillator();
+    const envelope = this.context.createGain();
+    oscillator.type = type;
+    oscillator.frequency.setValueAtTime(midiToFrequency(note), time);
+    envelope.gain.setValueAtTime(0, time);
+    envelope.gain.linearRampToValueAtTime(gain, time + 0.02);
+    envelope.gain.exponentialRampToValueAtTime(0.001, time + duration);
+    oscillator.connect(envelope);
+    envelope.connect(bus);
+    oscillator.start(time);
+    oscillator.stop(time + duration + 0.05);
+    oscillator.onended = () => envelope.disconnect();
+  }
+}
@@ -0,0 +1,173 @@
+// Session event log for teacher assessments, kept in localStorage and exportable as CSV or JSON
+export type SessionEventType =
+  | 'session-start'
+  | 'level-start'
+  | 'level-end'
+  | 'drop'
+  | 'return'
+  | 'box-added'
+  | 'box-removed'
+  | 'boxes-cleared'
+  | 'packing-failed'
+  | 'packing-succeeded'
+  | 'box-colored'
+  | 'coloring-mismatch'
+  | 'phase-time'
+  | 'hint'
+  | 'undo'
+  | 'redo'
+  | 'minigame-start'
+  | 'minigame-end'
+  | 'mode-start'
+  | 'run-end';
+
+export type SessionEventDetails = Record<string, string | number | boolean | null>;
+
+export interface SessionEvent {
+  timestamp: number;
+  sessionId: string;
+  profileId: string | null;
+  profileName: string | null;
+  levelId: string | null;
+  type: SessionEventType;
+  details: SessionEventDetails;
+}
+
+interface SessionContext {
+  profileId: string | null;
+  profileName: string | null;
+  levelId: string | null;
+}
+
+const STORAGE_KEY = 'chocolate-packing-game:events';
+const MAX_EVENTS = 5000;
+// نوشتن کل گزارش سنگین است؛ رویدادهای پشت سر هم با یک نوشتن ذخیره می‌شوند
+const WRITE_DELAY_MS = 2000;
+// خانه‌ای که با این نویسه‌ها شروع شود در برنامه‌های صفحه‌گسترده فرمول اجرا می‌شود
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+class SessionLogger {
+  private sessionId: string = `session-${Date.now()}`;
+  private context: SessionContext = { profileId: null, profileName: null, levelId: null };
+  private events: SessionEvent[] = [];
+  private writeTimer: number | null = null;
+
+  constructor() {
+    this.events = this.readEvents();
+    // پیش از بسته شدن یا پنهان شدن صفحه، رویدادهای نوشته‌نشده ذخیره می‌شوند
+    window.addEventListener('pagehide', () => this.flush());
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') this.flush();
+    });
+  }
+
+  private readEvents(): SessionEvent[] {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn('Could not read session log:', error);
+      return [];
+    }
+  }
+
+  private scheduleWrite() {
+    if (this.writeTimer !== null) return;
+    this.writeTimer = window.setTimeout(() => this.flush(), WRITE_DELAY_MS);
+  }
+
+  flush() {
+    if (this.writeTimer !== null) {
+      window.clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    this.writeEvents();
+  }
+
+  private writeEvents() {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.events));
+    } catch (error) {
+      console.warn('Could not write session log:', error);
+    }
+  }
+
+  // بازیکن یا مرحله فعلی؛ روی همه رویدادهای بعدی ثبت می‌شود
+  setContext(context: Partial<SessionContext>) {
+    this.context = { ...this.context, ...context };
+  }
+
+  startSession() {
+    this.sessionId = `session-${Date.now()}`;
+    this.log('session-start');
+  }
+
+  log(type: SessionEventType, details: SessionEventDetails = {}) {
+    this.events.push({
+      timestamp: Date.now(),
+      sessionId: this.sessionId,
+      ...this.context,
+      type,
+      details
+    });
+    // قدیمی‌ترین رویدادها حذف می‌شوند تا حافظه مرورگر پر نشود
+    if (this.events.length > MAX_EVENTS) {
+      this.events = this.events.slice(-MAX_EVENTS);
+    }
+    this.scheduleWrite();
+  }
+
+  getEvents(): SessionEvent[] {
+    return [...this.events];
+  }
+
+  clear() {
+    this.events = [];
+    this.flush();
+  }
+
+  exportJSON(): string {
+    return JSON.stringify(this.events, null, 2);
+  }
+
+  // جزئیات هر رویداد به ستون‌های جدا تبدیل می‌شود تا در اکسل خوانا باشد
+  exportCSV(): string {
+    const detailKeys = Array.from(new Set(this.events.flatMap(event => Object.keys(event.details)))).sort();
+    const header = ['time', 'sessionId', 'profileId', 'profileName', 'levelId', 'type', ...detailKeys];
+    const escape = (value: unknown) => {
+      const raw = value === null || value === undefined ? '' : String(value);
+      const text = typeof value === 'string' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const rows = this.events.map(event => [
+      new Date(event.timestamp).toISOString(),
+      event.sessionId,
+      event.profileId,
+      event.profileName,
+      event.levelId,
+      event.type,
+      ...detailKeys.map(key => event.details[key])
+    ].map(escape).join(','));
+    return [header.join(','), ...rows].join('\n');
+  }
+
+  download(format: 'csv' | 'json') {
+    const content = format === 'csv' ? `\uFEFF${this.exportCSV()}` : this.exportJSON();
+    const blob = new Blob([content], { type: format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `chocolate-game-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // بعضی مرورگرها دانلود را بعد از click شروع می‌کنند؛ آدرس کمی بعد آزاد می‌شود
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+}
+
+// Create a singleton instance
+const sessionLogger = new SessionLogger();
+
+export default sessionLogger;
@@ -1,20 +1,104 @@
 // Sound Manager for the chocolate packing game
+import { BackgroundMusic, MusicMood } from './BackgroundMusic';
+
+export type { MusicMood } from './BackgroundMusic';
+
+// هر کانال یک گره gain دارد؛ همه از کانال اصلی (master) می‌گذرند
+export type AudioChannel = 'master' | 'sfx' | 'music' | 'voice';
+
+export const AUDIO_CHANNELS: AudioChannel[] = ['master', 'sfx', 'music', 'voice'];
+
+export interface AudioSettings {
+  volumes: Record<AudioChannel, number>;
+  muted: Record<AudioChannel, boolean>;
+}
+
+const SETTINGS_KEY = 'chocolate-packing-game:audio';
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  volumes: { master: 0.8, sfx: 0.9, music: 0.4, voice: 1 },
+  muted: { master: false, sfx: false, music: false, voice: false }
+};
+
+// بلندترین نقطه پوش صداهای کوتاه بازی
+const SFX_PEAK = 0.7;
+
+// اولین لمس، کلیک یا کلید کاربر AudioContext را می‌سازد؛ مرورگرها پیش از آن صدا را معلق نگه می‌دارند
+const UNLOCK_EVENTS = ['pointerdown', 'touchstart', 'keydown'];
+
+const clampVolume = (value: unknown, fallback: number) =>
+  typeof value === 'number' && isFinite(value) ? Math.max(0, Math.min(1, value)) : fallback;
+
+const readSettings = (): AudioSettings => {
+  try {
+    const raw = window.localStorage.getItem(SETTINGS_KEY);
+    const stored = raw ? JSON.parse(raw) : {};
+    return {
+      volumes: Object.fromEntries(AUDIO_CHANNELS.map(channel => [
+        channel,
+        clampVolume(stored.volumes?.[channel], DEFAULT_AUDIO_SETTINGS.volumes[channel])
+      ])) as AudioSettings['volumes'],
+      muted: Object.fromEntries(AUDIO_CHANNELS.map(channel => [
+        channel,
+        typeof stored.muted?.[channel] === 'boolean' ? stored.muted[channel] : DEFAULT_AUDIO_SETTINGS.muted[channel]
+      ])) as AudioSettings['muted']
+    };
+  } catch (error) {
+    console.warn('Could not read audio settings:', error);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+};
+
 class SoundManager {
   private audioContext: AudioContext | null = null;
   private sounds: { [key: string]: HTMLAudioElement } = {};
-  private isMuted: boolean = false;
-  private volume: number = 0.7;
+  private settings: AudioSettings = readSettings();
+  private channels: Partial<Record<AudioChannel, GainNode>> = {};
+  private listeners = new Set<() => void>();
+  private music: BackgroundMusic | null = null;
+  // حالت موسیقی‌ای که پیش از اولین لمس کاربر خواسته شده
+  private pendingMood: MusicMood | null = null;
 
   constructor() {
-    this.initializeAudio();
+    UNLOCK_EVENTS.forEach(type => window.addEventListener(type, this.unlock, true));
     this.loadSounds();
   }
 
   private initializeAudio() {
+    if (this.audioContext) return;
+    let context: AudioContext;
     try {
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      context = new (window.AudioContext || (window as any).webkitAudioContext)();
     } catch (error) {
       console.warn('Web Audio API not supported, falling back to HTML5 audio');
+      return;
+    }
+    this.audioContext = context;
+    const master = context.createGain();
+    master.connect(context.destination);
+    this.channels.master = master;
+    (['sfx', 'music', 'voice'] as AudioChannel[]).forEach(channel => {
+      const gain = context.createGain();
+      gain.connect(master);
+      this.channels[channel] = gain;
+    });
+    AUDIO_CHANNELS.forEach(channel => this.applyChannelGain(channel));
+  }
+
+  private unlock = () => {
+    UNLOCK_EVENTS.forEach(type => window.removeEventListener(type, this.unlock, true));
+    this.initializeAudio();
+    this.resume();
+    if (this.pendingMood) {
+      const mood = this.pendingMood;
+      this.pendingMood = null;
+      this.startBackgroundMusic(mood);
+    }
+  };
+
+  resume() {
+    if (this.audioContext?.state === 'suspended') {
+      this.audioContext.resume().catch(error => console.warn('Could not resume audio:', error));
     }
   }
 
@@ -31,19 +115,20 @@ class SoundManager {
   private createBeepSound(name: string, frequency: number, duration: number, type: OscillatorType) {
     // Create a simple beep sound using Web Audio API
     const playSound = () => {
-      if (!this.audioContext || this.isMuted) return;
+      const output = this.channels.sfx;
+      if (!this.audioContext || !output || this.isChannelSilent('sfx')) return;
 
       const oscillator = this.audioContext.createOscillator();
       const gainNode = this.audioContext.createGain();
 
       oscillator.connect(gainNode);
-      gainNode.connect(this.audioContext.destination);
+      gainNode.connect(output);
 
       oscillator.frequency.setValueAtTime(frequency, this.audioContext.currentTime);
       oscillator.type = type;
 
       gainNode.gain.setValueAtTime(0, this.audioContext.currentTime);
-      gainNode.gain.linearRampToValueAtTime(this.volume, this.audioContext.currentTime + 0.01);
+      gainNode.gain.linearRampToValueAtTime(SFX_PEAK, this.audioContext.currentTime + 0.01);
       gainNode.gain.exponentialRampToValueAtTime(0.01, this.audioContext.currentTime + duration);
 
       oscillator.start(this.audioContext.currentTime);
@@ -89,7 +174,7 @@ class SoundManager {
   }
 
   private playSound(soundName: string) {
-    if (this.sounds[soundName] && !this.isMuted) {
+    if (this.sounds[soundName]) {
       try {
         this.sounds[soundName].play();
       } catch (error) {
@@ -98,54 +183,119 @@ class SoundManager {
     }
   }
 
-  // Volume control
+  // Channel settings: every change is applied to the gain nodes, saved and reported to listeners
+  getSettings(): AudioSettings {
+    return this.settings;
+  }
+
+  setChannelVolume(channel: AudioChannel, volume: number) {
+    this.updateSettings({
+      ...this.settings,
+      volumes: { ...this.settings.volumes, [channel]: clampVolume(volume, this.settings.volumes[channel]) }
+    });
+  }
+
+  setChannelMuted(channel: AudioChannel, muted: boolean) {
+    this.updateSettings({ ...this.settings, muted: { ...this.settings.muted, [channel]: muted } });
+  }
+
+  resetSettings() {
+    this.updateSettings(DEFAULT_AUDIO_SETTINGS);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private updateSettings(next: AudioSettings) {
+    this.settings = next;
+    AUDIO_CHANNELS.forEach(channel => this.applyChannelGain(channel));
+    try {
+      window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.warn('Could not save audio settings:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  private applyChannelGain(channel: AudioChannel) {
+    const gain = this.channels[channel];
+    if (!gain || !this.audioContext) return;
+    const target = this.settings.muted[channel] ? 0 : this.settings.volumes[channel];
+    gain.gain.setTargetAtTime(target, this.audioContext.currentTime, 0.02);
+  }
+
+  private isChannelSilent(channel: AudioChannel): boolean {
+    return this.getEffectiveVolume(channel) === 0;
+  }
+
+  // بلندی واقعی یک کانال بعد از اعمال کانال اصلی
+  getEffectiveVolume(channel: AudioChannel): number {
+    const { volumes, muted } = this.settings;
+    if (muted.master || muted[channel]) return 0;
+    return channel === 'master' ? volumes.master : volumes.master * volumes[channel];
+  }
+
+  // Volume control (master channel)
   setVolume(newVolume: number) {
-    this.volume = Math.max(0, Math.min(1, newVolume));
+    this.setChannelVolume('master', newVolume);
   }
 
   getVolume(): number {
-    return this.volume;
+    return this.settings.volumes.master;
   }
 
   // Mute control
   toggleMute() {
-    this.isMuted = !this.isMuted;
-    return this.isMuted;
+    this.setMuted(!this.settings.muted.master);
+    return this.settings.muted.master;
   }
 
   setMuted(muted: boolean) {
-    this.isMuted = muted;
+    this.setChannelMuted('master', muted);
   }
 
   isSoundMuted(): boolean {
-    return this.isMuted;
+    return this.settings.muted.master;
   }
 
-  // Background music simulation (simple loop)
-  startBackgroundMusic() {
-    // This would be implemented with actual music files
-    console.log('🎵 Background music started');
+  // Background music: a looping tune that crossfades when the mood changes
+  startBackgroundMusic(mood: MusicMood = 'packing') {
+    if (!this.audioContext || !this.channels.music) {
+      this.pendingMood = mood;
+      return;
+    }
+    if (!this.music) {
+      this.music = new BackgroundMusic(this.audioContext, this.channels.music);
+    }
+    this.music.start(mood);
   }
 
   stopBackgroundMusic() {
-    console.log('🔇 Background music stopped');
-  }
-
-  // Voice feedback for children
-  playVoiceFeedback(message: string) {
-    // This would use text-to-speech or pre-recorded voice files
-    if ('speechSynthesis' in window && !this.isMuted) {
-      const utterance = new SpeechSynthesisUtterance(message);
-      utterance.lang = 'fa-IR'; // Persian language
-      utterance.rate = 0.8; // Slower for children
-      utterance.pitch = 1.2; // Higher pitch for child-friendly voice
-      utterance.volume = this.volume;
-      
-      try {
-        speechSynthesis.speak(utterance);
-      } catch (error) {
-        console.warn('Speech synthesis failed:', error);
-      }
+    this.pendingMood = null;
+    this.music?.stop();
+  }
+
+  // وقتی گوینده حرف می‌زند موسیقی آهسته‌تر می‌شود
+  setVoiceActive(active: boolean) {
+    this.music?.setDucked(active);
+  }
+
+  // فایل صوتی گوینده از کانال voice پخش می‌شود تا تنظیمات صدا رویش اثر کند
+  connectVoiceElement(element: HTMLMediaElement) {
+    const output = this.channels.voice;
+    if (!this.audioContext || !output) {
+      element.volume = this.getEffectiveVolume('voice');
+      return;
+    }
+    try {
+      this.audioContext.createMediaElementSource(element).connect(output);
+    } catch (error) {
+      console.warn('Could not route voice clip:', error);
+      element.volume = this.getEffectiveVolume('voice');
     }
   }
 
@@ -166,6 +316,9 @@ class SoundManager {
 
   // Cleanup
   destroy() {
+    UNLOCK_EVENTS.forEach(type => window.removeEventListener(type, this.unlock, true));
+    this.stopBackgroundMusic();
+    this.music = null;
     if (this.audioContext) {
       this.audioContext.close();
       this.audioContext = null;
@@ -185,5 +338,6 @@ export const playClickSound = () => soundManager.playClick();
 export const playDropSound = () => soundManager.playDrop();
 export const playColorSound = () => soundManager.playColor();
 export const playCompleteSound = () => soundManager.playComplete();
-export const playVoiceMessage = (message: string) => soundManager.playVoiceFeedback(message);
+export const startMusic = (mood?: MusicMood) => soundManager.startBackgroundMusic(mood);
+export const stopMusic = () => soundManager.stopBackgroundMusic();
 export const playAmbientAudio = (type: 'celebration' | 'magic' | 'sparkle') => soundManager.playAmbientSound(type);
\ No newline at end of file
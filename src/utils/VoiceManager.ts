@@ -0,0 +1,251 @@
+// Spoken lines for children who can't read yet: one line at a time, by priority, with subtitles synced to playback
+import soundManager from './SoundManager';
+import { MAX_QUEUE_WAIT_MS, PRIORITY_RANK, VoicePriority, getVoiceClip, getVoiceLineInfo } from './voiceLines';
+
+export interface VoiceLine {
+  id: string;
+  text: string;
+}
+
+export interface Subtitle {
+  id: string;
+  text: string;
+  // تعداد حرف‌هایی که تا این لحظه خوانده شده
+  spokenChars: number;
+}
+
+interface QueuedLine extends VoiceLine {
+  priority: VoicePriority;
+  queuedAt: number;
+}
+
+// وقتی صدایی پخش نمی‌شود (بی‌صدا یا بدون صدای فارسی)، زیرنویس به اندازه زمان خواندن متن می‌ماند
+const MS_PER_CHAR = 70;
+const MIN_LINE_MS = 1500;
+// اگر مرورگر پایان جمله را اعلام نکند، خط بعدی منتظر نمی‌ماند
+const WATCHDOG_EXTRA_MS = 3000;
+
+const estimateDuration = (text: string) => Math.max(MIN_LINE_MS, text.length * MS_PER_CHAR);
+
+class VoiceManager {
+  private queue: QueuedLine[] = [];
+  private current: QueuedLine | null = null;
+  private subtitle: Subtitle | null = null;
+  private listeners = new Set<() => void>();
+  // پایان پخش فعلی؛ با قطع شدن خط، فراخوانی‌های دیرتر نادیده گرفته می‌شوند
+  private playback = 0;
+  private stopCurrent: (() => void) | null = null;
+  private voices: SpeechSynthesisVoice[] = [];
+  private missingVoiceWarned = new Set<string>();
+  private locale: string = 'fa';
+  private speechLang: string = 'fa-IR';
+
+  constructor() {
+    if ('speechSynthesis' in window) {
+      this.voices = speechSynthesis.getVoices();
+      // بیشتر مرورگرها فهرست صداها را بعد از بارگذاری صفحه می‌فرستند
+      speechSynthesis.addEventListener?.('voiceschanged', () => {
+        this.voices = speechSynthesis.getVoices();
+      });
+    }
+  }
+
+  // زبان گوینده همراه زبان بازی عوض می‌شود
+  setLanguage(locale: string, speechLang: string) {
+    if (this.locale === locale && this.speechLang === speechLang) return;
+    this.locale = locale;
+    this.speechLang = speechLang;
+    this.cancel();
+  }
+
+  speak(line: VoiceLine) {
+    const priority = getVoiceLineInfo(line.id).priority;
+    const request: QueuedLine = { ...line, priority, queuedAt: Date.now() };
+    // همان خط دوباره از اول خوانده نمی‌شود
+    if (this.current?.id === line.id && this.current.text === line.text) return;
+    this.queue = this.queue.filter(queued => queued.id !== line.id);
+
+    if (this.current && PRIORITY_RANK[priority] < PRIORITY_RANK[this.current.priority]) {
+      this.queue.push(request);
+      this.queue.sort((a, b) => PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] || a.queuedAt - b.queuedAt);
+      return;
+    }
+    // خط تازه خط‌های کهنه‌تر هم‌اولویت یا کم‌اولویت‌تر را بی‌معنی می‌کند
+    this.queue = this.queue.filter(queued => PRIORITY_RANK[queued.priority] > PRIORITY_RANK[priority]);
+    this.interrupt();
+    this.play(request);
+  }
+
+  cancel() {
+    this.queue = [];
+    this.interrupt();
+    this.setSubtitle(null);
+  }
+
+  getSubtitle(): Subtitle | null {
+    return this.subtitle;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setSubtitle(subtitle: Subtitle | null) {
+    this.subtitle = subtitle;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private interrupt() {
+    this.playback += 1;
+    const stop = this.stopCurrent;
+    this.stopCurrent = null;
+    this.current = null;
+    stop?.();
+    soundManager.setVoiceActive(false);
+  }
+
+  private play(line: QueuedLine) {
+    const playback = ++this.playback;
+    this.current = line;
+    this.setSubtitle({ id: line.id, text: line.text, spokenChars: 0 });
+    const done = () => {
+      if (playback !== this.playback) return;
+      this.stopCurrent = null;
+      this.current = null;
+      soundManager.setVoiceActive(false);
+      this.playNext();
+    };
+    const progress = (spokenChars: number) => {
+      if (playback !== this.playback) return;
+      this.setSubtitle({ id: line.id, text: line.text, spokenChars });
+    };
+
+    const clip = getVoiceClip(line.id, this.locale);
+    if (clip) {
+      this.playClip(clip, line, progress, done, () => {
+        if (playback === this.playback) this.playSpeech(line, progress, done);
+      });
+    } else {
+      this.playSpeech(line, progress, done);
+    }
+  }
+
+  private playNext() {
+    const now = Date.now();
+    this.queue = this.queue.filter(queued => now - queued.queuedAt <= MAX_QUEUE_WAIT_MS[queued.priority]);
+    const next = this.queue.shift();
+    if (next) {
+      this.play(next);
+    } else {
+      this.setSubtitle(null);
+    }
+  }
+
+  private playClip(url: string, line: VoiceLine, progress: (chars: number) => void, done: () => void, fallback: () => void) {
+    const audio = new Audio(url);
+    soundManager.connectVoiceElement(audio);
+    audio.ontimeupdate = () => {
+      if (audio.duration > 0) progress(Math.round(line.text.length * audio.currentTime / audio.duration));
+    };
+    audio.onended = () => {
+      progress(line.text.length);
+      done();
+    };
+    // فایل پیدا نشد یا پخش نشد: متن‌خوان مرورگر جایش را می‌گیرد
+    let failed = false;
+    const fail = () => {
+      if (failed) return;
+      failed = true;
+      audio.onended = null;
+      audio.ontimeupdate = null;
+      fallback();
+    };
+    audio.onerror = fail;
+    this.stopCurrent = () => {
+      audio.onerror = null;
+      audio.pause();
+      audio.removeAttribute('src');
+    };
+    soundManager.setVoiceActive(true);
+    audio.play().catch(fail);
+  }
+
+  private findVoice(): SpeechSynthesisVoice | null | undefined {
+    // تا وقتی فهرست صداها نیامده، انتخاب صدا به مرورگر سپرده می‌شود
+    if (this.voices.length === 0) return undefined;
+    const prefix = this.speechLang.slice(0, 2);
+    return this.voices.find(v => v.lang.replace('_', '-') === this.speechLang)
+      ?? this.voices.find(v => v.lang.startsWith(prefix))
+      ?? null;
+  }
+
+  private playSpeech(line: VoiceLine, progress: (chars: number) => void, done: () => void) {
+    const voice = 'speechSynthesis' in window ? this.findVoice() : null;
+    const volume = soundManager.getEffectiveVolume('voice');
+    if (voice === null && !this.missingVoiceWarned.has(this.speechLang)) {
+      this.missingVoiceWarned.add(this.speechLang);
+      console.warn(`No speech voice for ${this.speechLang}; showing subtitles only`);
+    }
+    if (voice === null || volume === 0) {
+      this.showSubtitleOnly(line, progress, done);
+      return;
+    }
+
+    const utterance = new SpeechSynthesisUtterance(line.text);
+    utterance.lang = this.speechLang;
+    if (voice) utterance.voice = voice;
+    utterance.rate = 0.8; // Slower for children
+    utterance.pitch = 1.2; // Higher pitch for child-friendly voice
+    utterance.volume = volume;
+    const watchdog = window.setTimeout(done, estimateDuration(line.text) / utterance.rate + WATCHDOG_EXTRA_MS);
+    const finish = () => {
+      window.clearTimeout(watchdog);
+      progress(line.text.length);
+      done();
+    };
+    utterance.onboundary = event => progress(event.charIndex + (event.charLength ?? 0));
+    utterance.onend = finish;
+    utterance.onerror = finish;
+    this.stopCurrent = () => {
+      window.clearTimeout(watchdog);
+      speechSynthesis.cancel();
+    };
+
+    soundManager.setVoiceActive(true);
+    try {
+      speechSynthesis.cancel();
+      speechSynthesis.speak(utterance);
+    } catch (error) {
+      console.warn('Speech synthesis failed:', error);
+      window.clearTimeout(watchdog);
+      this.showSubtitleOnly(line, progress, done);
+    }
+  }
+
+  private showSubtitleOnly(line: VoiceLine, progress: (chars: number) => void, done: () => void) {
+    const duration = estimateDuration(line.text);
+    const startedAt = Date.now();
+    const ticker = window.setInterval(() => {
+      progress(Math.min(line.text.length, Math.round(line.text.length * (Date.now() - startedAt) / duration)));
+    }, 200);
+    const timer = window.setTimeout(() => {
+      window.clearInterval(ticker);
+      done();
+    }, duration);
+    this.stopCurrent = () => {
+      window.clearInterval(ticker);
+      window.clearTimeout(timer);
+    };
+  }
+}
+
+// Create a singleton instance
+const voiceManager = new VoiceManager();
+
+export default voiceManager;
+
+export const speakLine = (line: VoiceLine) => voiceManager.speak(line);
+export const cancelVoice = () => voiceManager.cancel();
@@ -0,0 +1,36 @@
+// Which view renders the board: the DOM board (accessible, light on old devices) or the Pixi stage (richer visuals)
+export type BoardView = 'dom' | 'pixi';
+
+const BOARD_VIEW_KEY = 'chocolate-packing-game:board-view';
+
+const readBoardView = (): BoardView => {
+  try {
+    const saved = window.localStorage.getItem(BOARD_VIEW_KEY);
+    return saved === 'dom' || saved === 'pixi' ? saved : 'dom';
+  } catch (error) {
+    return 'dom';
+  }
+};
+
+let boardView: BoardView = readBoardView();
+const listeners = new Set<() => void>();
+
+export const getBoardView = (): BoardView => boardView;
+
+export const setBoardView = (view: BoardView) => {
+  if (view === boardView) return;
+  boardView = view;
+  try {
+    window.localStorage.setItem(BOARD_VIEW_KEY, view);
+  } catch (error) {
+    console.warn('Could not save board view:', error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeBoardView = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
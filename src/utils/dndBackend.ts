@@ -0,0 +1,26 @@
+// Drag-and-drop backends: HTML5 for mouse, touch with long-press lift for tablets.
+// The multi-backend switches automatically on the first touch or mouse event.
+import { HTML5Backend } from 'react-dnd-html5-backend';
+import { TouchBackend } from 'react-dnd-touch-backend';
+import { MultiBackendOptions, PointerTransition, TouchTransition } from 'react-dnd-multi-backend';
+
+// نگه داشتن انگشت به این مدت شکلات را بلند می‌کند؛ لمس کوتاه‌تر صفحه را اسکرول می‌کند
+export const LONG_PRESS_MS = 250;
+
+export const DND_BACKENDS: MultiBackendOptions = {
+  backends: [
+    {
+      id: 'html5',
+      backend: HTML5Backend,
+      transition: PointerTransition
+    },
+    {
+      id: 'touch',
+      backend: TouchBackend,
+      options: { delayTouchStart: LONG_PRESS_MS, ignoreContextMenu: true, touchSlop: 8 },
+      // تصویر کشیدن فقط برای لمس لازم است؛ مرورگر برای موس خودش تصویر می‌سازد
+      preview: true,
+      transition: TouchTransition
+    }
+  ]
+};
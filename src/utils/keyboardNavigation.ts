@@ -0,0 +1,49 @@
+// Keyboard helpers for playing without drag and drop: Enter/Space activation and arrow-key focus movement
+import React from 'react';
+
+const isActivationKey = (event: React.KeyboardEvent) => event.key === 'Enter' || event.key === ' ';
+
+// فوکوس با کلیدهای جهت بین عنصرهای هم‌گروه (data-nav-group) جابه‌جا می‌شود؛ در صفحه راست‌به‌چپ، چپ یعنی بعدی
+const moveFocusInGroup = (event: React.KeyboardEvent<HTMLElement>): boolean => {
+  const group = event.currentTarget.dataset.navGroup;
+  if (!group) return false;
+  const items = Array.from(document.querySelectorAll<HTMLElement>(`[data-nav-group="${group}"]`));
+  const index = items.indexOf(event.currentTarget);
+  if (index === -1) return false;
+
+  const rtl = window.getComputedStyle(event.currentTarget).direction === 'rtl';
+  let next: number;
+  switch (event.key) {
+    case 'ArrowDown':
+      next = index + 1;
+      break;
+    case 'ArrowUp':
+      next = index - 1;
+      break;
+    case 'ArrowLeft':
+      next = rtl ? index + 1 : index - 1;
+      break;
+    case 'ArrowRight':
+      next = rtl ? index - 1 : index + 1;
+      break;
+    case 'Home':
+      next = 0;
+      break;
+    case 'End':
+      next = items.length - 1;
+      break;
+    default:
+      return false;
+  }
+  items[(next + items.length) % items.length].focus();
+  return true;
+};
+
+// onKeyDown برای عنصرهای قابل انتخاب: Enter یا Space همان کار کلیک را می‌کند
+export const navigableKeyDown = (onActivate: () => void) => (event: React.KeyboardEvent<HTMLElement>) => {
+  if (moveFocusInGroup(event) || isActivationKey(event)) {
+    event.preventDefault();
+    event.stopPropagation();
+  }
+  if (isActivationKey(event)) onActivate();
+};
@@ -0,0 +1,60 @@
+// Voice line registry: playback priority and optional pre-recorded clips for every spoken message ID
+export type VoicePriority = 'ambient' | 'guide' | 'feedback' | 'celebration';
+
+// خط تازه فقط خطی با اولویت کمتر یا برابر را قطع می‌کند
+export const PRIORITY_RANK: Record<VoicePriority, number> = {
+  ambient: 0,
+  guide: 1,
+  feedback: 2,
+  celebration: 3
+};
+
+// خطی که بیشتر از این در صف بماند دیگر به وضعیت بازی ربطی ندارد و گفته نمی‌شود
+export const MAX_QUEUE_WAIT_MS: Record<VoicePriority, number> = {
+  ambient: 3000,
+  guide: 15000,
+  feedback: 6000,
+  celebration: 10000
+};
+
+export interface VoiceLineInfo {
+  priority: VoicePriority;
+  // نشانی فایل صوتی برای هر زبان؛ اگر نباشد یا پخش نشود، متن‌خوان مرورگر می‌خواند
+  clips?: Partial<Record<string, string>>;
+}
+
+const LEVEL_SECTION_PRIORITY: Record<string, VoicePriority> = {
+  intro: 'guide',
+  idle: 'ambient',
+  hints: 'feedback',
+  success: 'feedback'
+};
+
+const LEVEL_LINE_PATTERN = /^level\.(.+)\.(intro|idle|hints|success)(\.\d+)?$/;
+
+const registry: Record<string, VoiceLineInfo> = {
+  'game.completedVoice': { priority: 'celebration' },
+  'npc.coloringNudge1': { priority: 'ambient' },
+  'npc.coloringNudge2': { priority: 'ambient' }
+};
+
+// خط‌های مراحل (مثل level.level-1.hints.0) اولویتشان را از بخش متن راهنما می‌گیرند
+export const getVoiceLineInfo = (id: string): VoiceLineInfo => {
+  const registered = registry[id];
+  if (registered) return registered;
+  const match = LEVEL_LINE_PATTERN.exec(id);
+  return { priority: match ? LEVEL_SECTION_PRIORITY[match[2]] : 'guide' };
+};
+
+export const registerVoiceLine = (id: string, info: Partial<VoiceLineInfo>) => {
+  const current = getVoiceLineInfo(id);
+  registry[id] = { ...current, ...info, clips: { ...current.clips, ...info.clips } };
+};
+
+// فایل‌های ضبط‌شده یک زبان، مثلاً از public/voice/fa
+export const registerVoiceClips = (locale: string, clips: Record<string, string>) => {
+  Object.entries(clips).forEach(([id, url]) => registerVoiceLine(id, { clips: { [locale]: url } }));
+};
+
+export const getVoiceClip = (id: string, locale: string): string | null =>
+  getVoiceLineInfo(id).clips?.[locale] ?? null;